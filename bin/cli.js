@@ -9,5 +9,5 @@ const __dirname = dirname(__filename)
 
 const dist = resolve(__dirname, '../dist/index.js')
 
-const child = spawn(process.execPath, [dist], { stdio: 'inherit' })
+const child = spawn(process.execPath, [dist, ...process.argv.slice(2)], { stdio: 'inherit' })
 child.on('exit', (code) => process.exit(code ?? 0))
@@ -0,0 +1,52 @@
+import mineflayer, { Bot } from "mineflayer";
+
+// What mineflayer-pathfinder's A* hands back for one search
+export type ComputedPath = {
+  status: string; cost: number; time: number; visitedNodes: number;
+  path: Array<{ x: number; y: number; z: number; toBreak: Array<{ x: number; y: number; z: number }>; toPlace: Array<{ x: number; y: number; z: number }> }>;
+};
+
+// The slice of mineflayer's Bot (plus the plugins we load) that tool handlers rely on.
+// Anything that implements this can stand in for a real connection, e.g. the in-memory
+// fake world used by the unit tests.
+export type BotFacade = Pick<Bot,
+  | 'username' | 'version' | 'registry' | 'entity' | 'entities' | 'inventory' | 'heldItem'
+  | 'health' | 'food' | 'oxygenLevel' | 'game'
+  | 'blockAt' | 'blockAtCursor' | 'findBlock' | 'findBlocks'
+  | 'dig' | 'placeBlock' | 'activateBlock' | 'equip' | 'craft' | 'recipesFor'
+  | 'lookAt' | 'chat' | 'waitForTicks' | 'end'
+  | 'mount' | 'dismount' | 'moveVehicle' | '_client'
+  | 'on' | 'once' | 'removeListener' | 'emit'
+> & {
+  loadPlugin(plugin: unknown): void;
+  // Set by mineflayer's entities plugin while riding; missing from its typings
+  vehicle?: unknown;
+  pathfinder: {
+    setMovements(movements: unknown): void;
+    setGoal(goal: unknown, dynamic?: boolean): void;
+    goto(goal: unknown): Promise<void>;
+    getPathTo(movements: unknown, goal: unknown, timeout?: number): ComputedPath;
+    // One A* tick per step; steps again while the result is 'partial'
+    getPathFromTo(movements: unknown, startPos: unknown, goal: unknown, options?: { timeout?: number; tickTimeout?: number }): Iterator<{ result: ComputedPath }>;
+    stop(): void;
+    isMoving(): boolean;
+  };
+  collectBlock?: { collect(target: unknown): Promise<void>; cancelTask?(): void };
+  tool?: { equipForBlock(block: unknown): Promise<void> };
+};
+
+export type BotFactory = (options: any) => BotFacade;
+
+let botFactory: BotFactory = (options) => mineflayer.createBot(options) as unknown as BotFacade;
+
+// joinGame creates bots through here so tests can swap in a fake without a server
+export function createBot(options: any): Bot {
+  return botFactory(options) as unknown as Bot;
+}
+
+// Returns the previous factory so callers can restore it
+export function setBotFactory(factory: BotFactory): BotFactory {
+  const previous = botFactory;
+  botFactory = factory;
+  return previous;
+}
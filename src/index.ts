@@ -1,5 +1,5 @@
 import { Server } from "@modelcontextprotocol/sdk/server";
-import mineflayer, { Bot } from "mineflayer";
+import { Bot } from "mineflayer";
 import pathfinderPkg from "mineflayer-pathfinder";
 import armorManager from "mineflayer-armor-manager";
 import pvpPkg from "mineflayer-pvp";
@@ -7,6 +7,10 @@ import { loader as autoEatPlugin } from "mineflayer-auto-eat";
 import toolPkg from "mineflayer-tool";
 import collectBlockPkg from "mineflayer-collectblock";
 import { Vec3 } from "vec3";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { pathToFileURL } from "node:url";
+import { realpathSync } from "node:fs";
+import { createBot } from "./botFacade.js";
 import {
   StateTransition,
   BotStateMachine,
@@ -34,45 +38,687 @@ type BotRegistry = Map<string, Bot>;
 const bots: BotRegistry = new Map();
 
 // Per-bot task mutex and cancellation
-function getTask(bot: Bot) {
-  if (!(bot as any).__task) (bot as any).__task = { running: false, abort: null as null | (() => void) };
-  return (bot as any).__task as { running: boolean; abort: null | (() => void) };
+type TaskProgress = { completed: number; remaining: number; failed: number; total?: number };
+type TaskSignal = {
+  readonly aborted: boolean;
+  onAbort(cb: () => void): void;
+  progress(p: TaskProgress): void;
+};
+
+type QueuedTask = {
+  id: string;
+  tool?: string;
+  jobId?: string;
+  enqueuedAt: number;
+  onPosition?: (position: number | null) => void;
+  resume: () => void;
+  fail: (err: Error) => void;
+};
+type TaskState = {
+  running: boolean;
+  abort: null | (() => void);
+  current: { id: string; tool?: string; jobId?: string; startedAt: number } | null;
+  queue: QueuedTask[];
+};
+let taskSeq = 0;
+const MAX_QUEUED_TASKS = 20;
+
+function getTask(bot: Bot): TaskState {
+  if (!(bot as any).__task) (bot as any).__task = { running: false, abort: null, current: null, queue: [] };
+  return (bot as any).__task as TaskState;
+}
+
+// Per-call context for tasks: where progress goes, which client signal cancels them and
+// which HTTP session made the call. Set by sendToolCall and startJob.
+type TaskContext = {
+  onProgress?: (p: TaskProgress) => void;
+  signal?: AbortSignal;
+  sessionId?: string;
+  tool?: string;
+  jobId?: string;
+  // Told the queue position while waiting, then null once the task starts
+  onQueue?: (position: number | null) => void;
+  // Per-call movementProfile argument of navigating tools
+  movementProfile?: string;
+  // Validated tool arguments, so a queued call can be re-checked against the policy when it starts
+  args?: Record<string, unknown>;
+};
+const taskContext = new AsyncLocalStorage<TaskContext>();
+
+function notifyQueuePositions(task: TaskState) {
+  task.queue.forEach((q, i) => { try { q.onPosition?.(i + 1); } catch {} });
+}
+
+// Resolves with the queued entry's id when the running task hands the bot over; `running` stays
+// true across the handover
+function enqueueTask(task: TaskState, ctx: TaskContext | undefined, timeoutMs: number): Promise<string> {
+  if (task.queue.length >= MAX_QUEUED_TASKS) return Promise.reject(new Error('queue_full'));
+  return new Promise<string>((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const onClientAbort = () => entry.fail(new Error('cancelled'));
+    const cleanup = () => {
+      clearTimeout(timer);
+      if (ctx?.signal) ctx.signal.removeEventListener('abort', onClientAbort);
+    };
+    const entry: QueuedTask = {
+      id: `task-${++taskSeq}`,
+      tool: ctx?.tool,
+      jobId: ctx?.jobId,
+      enqueuedAt: Date.now(),
+      onPosition: ctx?.onQueue,
+      resume: () => { cleanup(); resolve(entry.id); },
+      fail: (err) => {
+        const i = task.queue.indexOf(entry);
+        if (i >= 0) { task.queue.splice(i, 1); notifyQueuePositions(task); }
+        cleanup();
+        reject(err);
+      }
+    };
+    timer = setTimeout(() => entry.fail(new Error('queue_timeout')), timeoutMs);
+    if (ctx?.signal?.aborted) { entry.fail(new Error('cancelled')); return; }
+    if (ctx?.signal) ctx.signal.addEventListener('abort', onClientAbort, { once: true });
+    task.queue.push(entry);
+    notifyQueuePositions(task);
+  });
 }
-async function withTask<T>(bot: Bot, fn: (signal: { onAbort(cb: () => void): void }) => Promise<T>): Promise<T> {
+
+function failQueuedTasks(task: TaskState, reason: string): number {
+  const pending = task.queue.splice(0);
+  for (const q of pending) q.fail(new Error(reason));
+  return pending.length;
+}
+
+async function withTask<T>(bot: Bot, fn: (signal: TaskSignal) => Promise<T>): Promise<T> {
   const task = getTask(bot);
-  if (task.running) throw new Error('another_task_running');
+  const ctx = taskContext.getStore();
+  let queuedMs: number | undefined;
+  let taskId: string | undefined;
+  if (task.running) {
+    if (!botConfig(bot).queueTasks) throw new Error('another_task_running');
+    const enqueuedAt = Date.now();
+    // The id listQueue showed while waiting stays the task's id once it runs
+    taskId = await enqueueTask(task, ctx, botConfig(bot).queueTimeoutMs);
+    queuedMs = Date.now() - enqueuedAt;
+    try { ctx?.onQueue?.(null); } catch {}
+  }
   task.running = true;
+  task.current = { id: taskId ?? `task-${++taskSeq}`, tool: ctx?.tool, jobId: ctx?.jobId, startedAt: Date.now() };
   const onAbortCbs: Array<() => void> = [];
-  task.abort = () => { try { bot.pathfinder?.stop?.(); (bot as any).pvp?.stop?.(); } catch {} for (const cb of onAbortCbs) { try { cb(); } catch {} } };
+  let aborted = false;
+  task.abort = () => { aborted = true; try { bot.pathfinder?.stop?.(); (bot as any).pvp?.stop?.(); } catch {} for (const cb of onAbortCbs) { try { cb(); } catch {} } };
+  const onClientAbort = () => { task.abort?.(); };
+  if (ctx?.signal) ctx.signal.addEventListener('abort', onClientAbort, { once: true });
   let deathListener: any = null;
   try {
+    // The policy was checked when the call arrived; a queued call may have waited past its budget
+    if (queuedMs != null && ctx?.tool && ctx.args) {
+      const denial = checkToolPolicy(ctx.tool, ctx.args);
+      if (denial) return { ...denial, queuedMs } as T;
+    }
+    if (ctx?.signal?.aborted) task.abort?.();
     const deathPromise = new Promise<never>((_, rej) => {
       deathListener = () => {
         try { bot.pathfinder?.stop?.(); (bot as any).pvp?.stop?.(); } catch {}
+        // Tasks queued behind this one were planned for the life that just ended
+        failQueuedTasks(task, 'bot_died');
         rej(new Error('bot_died'));
       };
       try { bot.on('death', deathListener); } catch {}
     });
-    const run = fn({ onAbort(cb) { onAbortCbs.push(cb); } });
+    const run = fn({
+      get aborted() { return aborted; },
+      onAbort(cb) { onAbortCbs.push(cb); },
+      progress(p) { try { ctx?.onProgress?.(p); } catch {} }
+    });
     const res = await Promise.race([run, deathPromise]);
+    if (queuedMs != null && res && typeof res === 'object' && !Array.isArray(res)) return { ...(res as any), queuedMs } as T;
     return res as T;
   } finally {
     if (deathListener) {
       try { bot.removeListener('death', deathListener); } catch {}
     }
-    task.running = false;
+    if (ctx?.signal) ctx.signal.removeEventListener('abort', onClientAbort);
     task.abort = null;
+    task.current = null;
+    const next = task.queue.shift();
+    if (next) {
+      notifyQueuePositions(task);
+      next.resume();
+    } else {
+      task.running = false;
+    }
+  }
+}
+
+async function listQueue(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const task = getTask(bot);
+  const now = Date.now();
+  return {
+    ok: true,
+    username: botKey(bot),
+    queueMode: botConfig(bot).queueTasks,
+    running: task.current ? { ...task.current, elapsedMs: now - task.current.startedAt } : null,
+    queue: task.queue.map((q, i) => ({ taskId: q.id, position: i + 1, tool: q.tool, jobId: q.jobId, enqueuedAt: q.enqueuedAt, waitedMs: now - q.enqueuedAt }))
+  };
+}
+
+async function clearQueue(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const cleared = failQueuedTasks(getTask(bot), 'queue_cleared');
+  return { ok: true, username: botKey(bot), cleared };
+}
+
+async function moveQueuedTask(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const task = getTask(bot);
+  const taskId = String(params.taskId || '');
+  const from = task.queue.findIndex(q => q.id === taskId || (q.jobId != null && q.jobId === taskId));
+  if (from < 0) return { ok: false, error: 'task_not_queued', taskId };
+  const to = Math.max(0, Math.min(task.queue.length - 1, Math.floor(Number(params.position ?? 1)) - 1));
+  const [entry] = task.queue.splice(from, 1);
+  task.queue.splice(to, 0, entry);
+  notifyQueuePositions(task);
+  return { ok: true, taskId: entry.id, position: to + 1, queue: task.queue.map((q, i) => ({ taskId: q.id, position: i + 1, tool: q.tool, jobId: q.jobId })) };
+}
+
+// ---- Server configuration ----
+// Tunables that used to be hard-coded. Effective values for a bot are layered:
+// built-in defaults < config file `defaults` < bot profile `settings` < per-bot setConfig overrides
+type BotConfig = {
+  hostileMobs: string[];
+  autoEatThreshold: number;
+  defenseRadius: number;
+  hostileAvoidRadius: number;
+  liquidCost: number;
+  mineSearchRadius: number;
+  queueTasks: boolean;
+  queueTimeoutMs: number;
+  movementProfile: string;
+  worldMemory: boolean;
+};
+type BotProfile = { join?: Record<string, unknown>; settings?: Partial<BotConfig> };
+type ServerConfig = { path?: string; join: Record<string, unknown>; defaults: BotConfig; fileDefaults?: BotConfig; profiles: Record<string, BotProfile>; audit?: Partial<AuditConfig>; waypoints?: { file?: string }; worldMemory?: { file?: string }; movementProfiles?: Record<string, Partial<MovementProfile>>; policy?: AccessPolicy };
+
+const BUILTIN_BOT_CONFIG: BotConfig = {
+  hostileMobs: [
+    'zombie','skeleton','creeper','spider','witch','drowned','husk','stray','pillager','vindicator','ravager',
+    'guardian','elder_guardian','phantom','slime','magma_cube','hoglin','zoglin','blaze','ghast','warden','evoker'
+  ],
+  autoEatThreshold: 15,
+  defenseRadius: 8,
+  hostileAvoidRadius: 6,
+  liquidCost: 25,
+  mineSearchRadius: 64,
+  queueTasks: false,
+  queueTimeoutMs: 300000,
+  movementProfile: 'default',
+  worldMemory: true
+};
+
+const BOT_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    hostileMobs: { type: 'array', items: { type: 'string' }, description: 'Entity name fragments treated as hostile' },
+    autoEatThreshold: { type: 'number', description: 'Food level below which the bot eats' },
+    defenseRadius: { type: 'number', description: 'Blocks within which hostiles are attacked proactively' },
+    hostileAvoidRadius: { type: 'number', description: 'Pathing penalises positions this close to hostile mobs (0 disables)' },
+    liquidCost: { type: 'number', description: 'Pathfinder cost for moving through liquids' },
+    mineSearchRadius: { type: 'number', description: 'Block search radius for mineResource' },
+    queueTasks: { type: 'boolean', description: 'Queue long-running tasks behind the current one instead of failing with another_task_running' },
+    queueTimeoutMs: { type: 'number', description: 'How long a queued task may wait before failing with queue_timeout' },
+    movementProfile: { type: 'string', description: 'Movement profile used when a tool does not pass movementProfile' },
+    worldMemory: { type: 'boolean', description: 'Index valuable blocks in loaded chunks for queryWorldMemory' }
+  }
+};
+
+// How the pathfinder may move a bot. Tools pick one by name; see configureMovementsDefaults.
+type MovementProfile = {
+  allowParkour: boolean;
+  allowSprinting: boolean;
+  canDig: boolean;
+  // Bridge gaps and pillar up with scaffolding blocks
+  canPlace: boolean;
+  maxDropDown: number;
+  // Unset uses the bot's liquidCost setting
+  liquidCost?: number;
+  // Item names used as scaffolding; unset keeps the pathfinder's own list (dirt, cobblestone, ...)
+  scaffoldingBlocks?: string[];
+  avoidBreaking: string[];
+  // Let routes pass over or through entities (boats, minecarts, mobs) instead of going around them
+  allowEntityClimbing: boolean;
+};
+
+const BUILTIN_MOVEMENT_PROFILES: Record<string, MovementProfile> = {
+  default: { allowParkour: false, allowSprinting: true, canDig: true, canPlace: true, maxDropDown: 3, avoidBreaking: [], allowEntityClimbing: false },
+  cautious: { allowParkour: false, allowSprinting: false, canDig: true, canPlace: true, maxDropDown: 2, liquidCost: 100, avoidBreaking: ['chest', 'trapped_chest', 'barrel', 'furnace', 'crafting_table'], allowEntityClimbing: false },
+  builder: { allowParkour: false, allowSprinting: true, canDig: true, canPlace: true, maxDropDown: 3, scaffoldingBlocks: ['dirt', 'cobblestone', 'cobbled_deepslate', 'netherrack', 'stone', 'oak_planks', 'spruce_planks', 'birch_planks'], avoidBreaking: [], allowEntityClimbing: false },
+  no_grief: { allowParkour: false, allowSprinting: true, canDig: false, canPlace: false, maxDropDown: 3, avoidBreaking: [], allowEntityClimbing: false },
+  fast: { allowParkour: true, allowSprinting: true, canDig: true, canPlace: true, maxDropDown: 4, avoidBreaking: [], allowEntityClimbing: true }
+};
+
+const MOVEMENT_PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    allowParkour: { type: 'boolean' },
+    allowSprinting: { type: 'boolean' },
+    canDig: { type: 'boolean' },
+    canPlace: { type: 'boolean' },
+    maxDropDown: { type: 'number' },
+    liquidCost: { type: 'number' },
+    scaffoldingBlocks: { type: 'array', items: { type: 'string' } },
+    avoidBreaking: { type: 'array', items: { type: 'string' } },
+    allowEntityClimbing: { type: 'boolean' }
+  }
+};
+
+// Config file profiles extend the built-in one of the same name, or `default`
+function movementProfiles(): Record<string, MovementProfile> {
+  const all: Record<string, MovementProfile> = { ...BUILTIN_MOVEMENT_PROFILES };
+  for (const [name, p] of Object.entries(serverConfig.movementProfiles ?? {})) {
+    all[name] = { ...(BUILTIN_MOVEMENT_PROFILES[name] ?? BUILTIN_MOVEMENT_PROFILES.default), ...p };
+  }
+  return all;
+}
+
+// The profile for this call: the tool's movementProfile argument, else the bot's setting
+function movementProfileName(bot?: Bot): string {
+  return taskContext.getStore()?.movementProfile ?? botConfig(bot).movementProfile;
+}
+
+let serverConfig: ServerConfig = { join: {}, defaults: { ...BUILTIN_BOT_CONFIG }, profiles: {} };
+
+function botConfig(bot?: Bot): BotConfig {
+  const profile = bot ? serverConfig.profiles[(bot as any).__profile]?.settings : undefined;
+  return { ...serverConfig.defaults, ...profile, ...(bot as any)?.__configOverrides };
+}
+
+function formatArgIssues(issues: ArgIssue[]): string {
+  return issues.map(i => `${i.field || '(root)'}: ${i.error}${i.didYouMean ? ` (did you mean '${i.didYouMean}'?)` : ''}`).join('; ');
+}
+
+// Profile `join` blocks accept the same fields as joinGame, but none are required there
+function joinDefaultsSchema(): JsonSchema {
+  const schema = toolRegistry.get('joinGame')!.inputSchema;
+  const properties = { ...schema.properties };
+  delete properties.profile;
+  return { ...schema, properties, required: [] };
+}
+
+async function loadServerConfig(file: string): Promise<ServerConfig> {
+  const fs = await import('node:fs/promises');
+  const text = await fs.readFile(file, 'utf8');
+  let raw: any;
+  if (/\.ya?ml$/i.test(file)) {
+    const YAML = await import('yaml');
+    raw = YAML.parse(text);
+  } else {
+    raw = JSON.parse(text);
+  }
+  const issues: ArgIssue[] = [];
+  validateAgainstSchema({
+    type: 'object',
+    properties: {
+      join: joinDefaultsSchema(),
+      defaults: BOT_CONFIG_SCHEMA,
+      audit: { type: 'object', properties: { dir: { type: 'string' }, maxBytes: { type: 'number' }, maxFiles: { type: 'number' } } },
+      waypoints: { type: 'object', properties: { file: { type: 'string' } } },
+      worldMemory: { type: 'object', properties: { file: { type: 'string' } } },
+      movementProfiles: { type: 'object', additionalProperties: true },
+      policy: POLICY_SCHEMA,
+      profiles: { type: 'object', additionalProperties: true }
+    }
+  }, raw ?? {}, '', issues);
+  for (const [name, profile] of Object.entries(raw?.movementProfiles ?? {})) {
+    validateAgainstSchema(MOVEMENT_PROFILE_SCHEMA, profile, `movementProfiles.${name}`, issues);
+  }
+  for (const [name, profile] of Object.entries(raw?.profiles ?? {})) {
+    validateAgainstSchema({ type: 'object', properties: { join: joinDefaultsSchema(), settings: BOT_CONFIG_SCHEMA } }, profile, `profiles.${name}`, issues);
+  }
+  if (issues.length) throw new Error(`invalid_config ${file}: ${formatArgIssues(issues)}`);
+  // Fail at startup on bad command patterns rather than on first use
+  compileCommandPatterns(raw?.policy?.commands?.allow, 'allow');
+  compileCommandPatterns(raw?.policy?.commands?.deny, 'deny');
+  return {
+    path: file,
+    audit: raw?.audit,
+    waypoints: raw?.waypoints,
+    worldMemory: raw?.worldMemory,
+    movementProfiles: raw?.movementProfiles,
+    policy: raw?.policy,
+    join: { ...raw?.join },
+    defaults: { ...BUILTIN_BOT_CONFIG, ...raw?.defaults },
+    // What setConfig resets a defaults key to once runtime changes pile up on `defaults`
+    fileDefaults: { ...BUILTIN_BOT_CONFIG, ...raw?.defaults },
+    profiles: { ...raw?.profiles }
+  };
+}
+
+function useServerConfig(config: ServerConfig) {
+  serverConfig = config;
+  applyPolicy(config.policy);
+}
+
+// Fill joinGame arguments from the config file: explicit args win over the profile, which wins over `join`
+function resolveJoinParams(params: Record<string, unknown>): Record<string, unknown> {
+  const name = params.profile != null ? String(params.profile) : undefined;
+  if (name && !serverConfig.profiles[name]) {
+    throw new Error(`Unknown profile '${name}' (available: ${Object.keys(serverConfig.profiles).join(', ') || 'none'})`);
+  }
+  const explicit = Object.fromEntries(Object.entries(params).filter(([, v]) => v !== undefined && v !== null));
+  return { ...serverConfig.join, ...(name ? serverConfig.profiles[name].join : undefined), ...explicit };
+}
+
+// Push settings that plugins cache onto a live bot
+function applyBotConfig(bot: Bot) {
+  try {
+    // @ts-ignore
+    if ((bot as any).autoEat?.options) (bot as any).autoEat.options.minHunger = botConfig(bot).autoEatThreshold;
+  } catch {}
+}
+
+async function getConfig(params: Record<string, unknown>) {
+  if (params.username) {
+    const bot = getBotOrThrow(String(params.username));
+    return { ok: true, username: bot.username, profile: (bot as any).__profile ?? null, overrides: { ...(bot as any).__configOverrides }, effective: botConfig(bot) };
+  }
+  if (params.profile) {
+    const name = String(params.profile);
+    const profile = serverConfig.profiles[name];
+    if (!profile) return { ok: false, error: 'unknown_profile', profile: name, available: Object.keys(serverConfig.profiles) };
+    return { ok: true, profile: name, join: profile.join ?? {}, settings: profile.settings ?? {}, effective: { ...serverConfig.defaults, ...profile.settings } };
+  }
+  return { ok: true, path: serverConfig.path ?? null, join: serverConfig.join, defaults: serverConfig.defaults, profiles: serverConfig.profiles, movementProfiles: movementProfiles(), policy: serverConfig.policy ?? null };
+}
+
+async function setConfig(params: Record<string, unknown>) {
+  const settings = (params.settings || {}) as Record<string, unknown>;
+  // A null value drops the key from this layer so the next layer down applies again
+  const merge = (layer: Record<string, unknown>, fallback: Record<string, unknown> = {}) => {
+    const next: Record<string, unknown> = { ...layer };
+    for (const [k, v] of Object.entries(settings)) {
+      if (v === null) { if (k in fallback) next[k] = fallback[k]; else delete next[k]; }
+      else next[k] = v;
+    }
+    return next;
+  };
+  let scope: string;
+  let layer: Record<string, unknown>;
+  if (params.username) {
+    const bot = getBotOrThrow(String(params.username));
+    layer = merge((bot as any).__configOverrides || {});
+    ;(bot as any).__configOverrides = layer;
+    scope = `bot:${bot.username}`;
+  } else if (params.profile) {
+    const name = String(params.profile);
+    const profile = serverConfig.profiles[name];
+    if (!profile) return { ok: false, error: 'unknown_profile', profile: name, available: Object.keys(serverConfig.profiles) };
+    layer = merge(profile.settings || {});
+    profile.settings = layer as Partial<BotConfig>;
+    scope = `profile:${name}`;
+  } else {
+    layer = merge(serverConfig.defaults, serverConfig.fileDefaults ?? BUILTIN_BOT_CONFIG);
+    serverConfig.defaults = layer as BotConfig;
+    scope = 'defaults';
+  }
+  for (const bot of bots.values()) applyBotConfig(bot);
+  return { ok: true, scope, settings: layer };
+}
+
+async function setMovementProfile(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const profile = String(params.profile || "");
+  const available = movementProfiles();
+  if (!available[profile]) return { ok: false, error: 'unknown_movement_profile', movementProfile: profile, available: Object.keys(available) };
+  (bot as any).__configOverrides = { ...(bot as any).__configOverrides, movementProfile: profile };
+  return { ok: true, username: bot.username, movementProfile: profile, settings: available[profile] };
+}
+
+// ---- Access policy ----
+// Loaded from the config file only; agents cannot change it through tools
+type PolicyRegion = { name?: string; min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number }; dimension?: string };
+type AccessPolicy = {
+  tools?: { allow?: string[]; deny?: string[] };
+  commands?: { allow?: string[]; deny?: string[] };
+  protectedRegions?: PolicyRegion[];
+  limits?: { blocksBrokenPerMinute?: number };
+};
+type PolicyDenial = { ok: false; error: 'policy_denied'; rule: string; message: string; [extra: string]: unknown };
+
+const XYZ_SCHEMA: JsonSchema = { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' }, z: { type: 'number' } }, required: ['x','y','z'] };
+const POLICY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tools: { type: 'object', properties: { allow: { type: 'array', items: { type: 'string' } }, deny: { type: 'array', items: { type: 'string' } } } },
+    commands: { type: 'object', properties: { allow: { type: 'array', items: { type: 'string' } }, deny: { type: 'array', items: { type: 'string' } } } },
+    protectedRegions: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, min: XYZ_SCHEMA, max: XYZ_SCHEMA, dimension: { type: 'string' } }, required: ['min','max'] } },
+    limits: { type: 'object', properties: { blocksBrokenPerMinute: { type: 'number' } } }
+  }
+};
+
+// Tools whose x/y/z arguments, when given, name the block they change (or use an item such as a lava bucket on)
+const REGION_GUARDED_TOOLS = new Set(['digBlock', 'placeBlockAt', 'buildSomething', 'placeItemNearYou', 'useItemOnBlockOrEntity']);
+
+function policyDenied(rule: string, message: string, extra: Record<string, unknown> = {}): PolicyDenial {
+  return { ok: false, error: 'policy_denied', rule, message, ...extra };
+}
+
+// Command patterns are case-insensitive regular expressions matched against the full "/command args"
+function compileCommandPatterns(patterns: string[] | undefined, field: string): RegExp[] {
+  return (patterns || []).map((p, i) => {
+    try { return new RegExp(p, 'i'); } catch (e: any) { throw new Error(`invalid_config policy.commands.${field}[${i}]: ${e?.message || e}`); }
+  });
+}
+
+let commandAllow: RegExp[] = [];
+let commandDeny: RegExp[] = [];
+
+function applyPolicy(policy: AccessPolicy | undefined) {
+  commandAllow = compileCommandPatterns(policy?.commands?.allow, 'allow');
+  commandDeny = compileCommandPatterns(policy?.commands?.deny, 'deny');
+}
+
+function currentPolicy(): AccessPolicy {
+  return serverConfig.policy || {};
+}
+
+function checkCommandPolicy(command: string): PolicyDenial | null {
+  const cmd = command.trim().startsWith('/') ? command.trim() : `/${command.trim()}`;
+  const denied = commandDeny.find(r => r.test(cmd));
+  if (denied) return policyDenied('command_denied', `Command matches deny pattern ${denied.source}`, { command: cmd });
+  if (commandAllow.length && !commandAllow.some(r => r.test(cmd))) return policyDenied('command_not_allowed', 'Command matches no allow pattern', { command: cmd });
+  return null;
+}
+
+function normalizeDimension(d: unknown): string {
+  return String(d || '').replace(/^minecraft:/, '');
+}
+
+function protectedRegionFor(bot: Bot | undefined, min: Vec3, max: Vec3 = min): PolicyRegion | null {
+  const dim = bot ? normalizeDimension((bot as any).game?.dimension) : '';
+  for (const r of currentPolicy().protectedRegions || []) {
+    if (r.dimension && dim && normalizeDimension(r.dimension) !== dim) continue;
+    const lo = { x: Math.min(r.min.x, r.max.x), y: Math.min(r.min.y, r.max.y), z: Math.min(r.min.z, r.max.z) };
+    const hi = { x: Math.max(r.min.x, r.max.x), y: Math.max(r.min.y, r.max.y), z: Math.max(r.min.z, r.max.z) };
+    if (max.x >= lo.x && min.x <= hi.x && max.y >= lo.y && min.y <= hi.y && max.z >= lo.z && min.z <= hi.z) return r;
+  }
+  return null;
+}
+
+function isProtectedPosition(bot: Bot, pos: Vec3): boolean {
+  return !!protectedRegionFor(bot, pos.floored());
+}
+
+// /execute subcommands that move or re-dimension the position ~ resolves against
+const EXECUTE_MOVES = new Set(['at', 'align', 'anchored', 'facing', 'rotated', 'positioned', 'in']);
+
+// Box of blocks a command changes, resolving ~ against the bot and unwrapping /execute ... run.
+// undefined = not a block-editing command; null = a block edit whose target we cannot resolve
+// (^ local coordinates, ~ after /execute at, /place, another dimension)
+function commandTargetBox(command: string, bot?: Bot): { min: Vec3; max: Vec3 } | null | undefined {
+  let parts = command.trim().replace(/^\//, '').split(/\s+/);
+  let base: Vec3 | undefined = bot?.entity?.position?.floored();
+  let otherDimension = false;
+  const readPos = (at: number): Vec3 | null => {
+    const coords: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const s = parts[at + i] || '';
+      const axis = (['x','y','z'] as const)[i];
+      if (s.startsWith('~')) { if (!base) return null; coords.push(base[axis] + Number(s.slice(1) || 0)); }
+      else coords.push(Number(s));
+      if (!Number.isFinite(coords[i])) return null;
+    }
+    return new Vec3(coords[0], coords[1], coords[2]);
+  };
+  const verbAt = (i: number) => parts[i]?.toLowerCase().replace(/^minecraft:/, '');
+  while (verbAt(0) === 'execute') {
+    const run = parts.findIndex((p, i) => i > 0 && p.toLowerCase() === 'run');
+    const end = run < 0 ? parts.length : run;
+    for (let i = 1; i < end; i++) {
+      const word = parts[i].toLowerCase();
+      if (word === 'store' && verbAt(i + 2) === 'block') return null;
+      if (word === 'positioned' && !['as', 'over'].includes(verbAt(i + 1) ?? '')) { base = readPos(i + 1) ?? undefined; i += 3; }
+      else if (EXECUTE_MOVES.has(word)) { base = undefined; if (word === 'in') otherDimension = true; }
+    }
+    if (run < 0) return undefined;
+    parts = parts.slice(run + 1);
+  }
+  const verb = verbAt(0);
+  let box: { min: Vec3; max: Vec3 } | null | undefined;
+  if (verb === 'setblock' || verb === 'fill' || verb === 'fillbiome') {
+    const a = readPos(1), b = verb === 'setblock' ? a : readPos(4);
+    box = a && b ? { min: new Vec3(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.min(a.z, b.z)), max: new Vec3(Math.max(a.x, b.x), Math.max(a.y, b.y), Math.max(a.z, b.z)) } : null;
+  } else if (verb === 'clone') {
+    // Only the destination changes; `clone from <dimension>` reads another dimension's blocks
+    const a = readPos(1), b = readPos(4), dest = verbAt(1) === 'from' ? null : readPos(7);
+    box = a && b && dest ? { min: dest, max: dest.offset(Math.abs(b.x - a.x), Math.abs(b.y - a.y), Math.abs(b.z - a.z)) } : null;
+  } else if ((verb === 'data' && verbAt(1) !== 'get') || (verb === 'item' && (verbAt(1) === 'replace' || verbAt(1) === 'modify'))) {
+    // Block entity contents, e.g. a chest's items
+    if (verbAt(2) !== 'block') return undefined;
+    const a = readPos(3);
+    box = a ? { min: a, max: a } : null;
+  } else if (verb === 'place') {
+    // Features and structures have no size we can tell from the command
+    box = null;
+  } else {
+    return undefined;
+  }
+  return box && otherDimension ? null : box;
+}
+
+function blockBreakTimes(bot: Bot): number[] {
+  const cutoff = Date.now() - 60000;
+  const times: number[] = ((bot as any).__blockBreaks || []).filter((t: number) => t > cutoff);
+  (bot as any).__blockBreaks = times;
+  return times;
+}
+
+function checkBlockBreakBudget(bot: Bot): PolicyDenial | null {
+  const limit = currentPolicy().limits?.blocksBrokenPerMinute;
+  if (limit == null) return null;
+  const times = blockBreakTimes(bot);
+  if (times.length < limit) return null;
+  return policyDenied('rate_limit', `Limit of ${limit} blocks broken per minute reached`, { limit, retryAfterMs: Math.max(0, times[0] + 60000 - Date.now()) });
+}
+
+function recordBlockBroken(bot: Bot) {
+  blockBreakTimes(bot).push(Date.now());
+}
+
+// Counts every completed dig toward the budget, whether a tool or the pathfinder broke the block
+function trackBlockBreaks(bot: Bot) {
+  if ((bot as any).__blockBreakTracking) return;
+  (bot as any).__blockBreakTracking = true;
+  bot.on('diggingCompleted', () => recordBlockBroken(bot));
+}
+
+// Checked right before each block a tool breaks
+function blockBreakDenial(bot: Bot, pos: Vec3): PolicyDenial | null {
+  const p = pos.floored();
+  const region = protectedRegionFor(bot, p);
+  if (region) return policyDenied('protected_region', `Block is inside protected region ${region.name ?? ''}`.trim(), { position: { x: p.x, y: p.y, z: p.z }, region });
+  return checkBlockBreakBudget(bot);
+}
+
+// Digs a block after the region and budget checks; returns the denial instead of digging
+async function breakBlock(bot: Bot, block: any): Promise<PolicyDenial | null> {
+  const denial = blockBreakDenial(bot, block.position);
+  if (denial) return denial;
+  trackBlockBreaks(bot);
+  try { pushSuspendAutoEat(bot); await bot.dig(block); } finally { popSuspendAutoEat(bot); }
+  return null;
+}
+
+// Runs before every tool handler, before a background job is queued, and again when a queued task starts
+function checkToolPolicy(name: string, args: Record<string, unknown>): PolicyDenial | null {
+  const policy = currentPolicy();
+  if (policy.tools?.deny?.includes(name)) return policyDenied('tool_denied', `Tool ${name} is denied by policy`, { tool: name });
+  if (policy.tools?.allow?.length && !policy.tools.allow.includes(name)) return policyDenied('tool_not_allowed', `Tool ${name} is not in the allow list`, { tool: name });
+  let bot: Bot | undefined;
+  try { bot = getBotOrThrow(String(args.username || '')); } catch {}
+
+  const commands: string[] = [];
+  if (name === 'sendChat' && String(args.message || '').trim().startsWith('/')) commands.push(String(args.message));
+  if (name === 'buildSomething' && String(args.mode ?? 'commands') === 'commands' && Array.isArray(args.commands)) commands.push(...args.commands.map(String));
+  for (const c of commands) {
+    const denial = checkCommandPolicy(c);
+    if (denial) return { ...denial, tool: name };
+    if (policy.protectedRegions?.length) {
+      const box = commandTargetBox(c, bot);
+      if (box === null) return policyDenied('protected_region', 'Cannot resolve command coordinates while protected regions are set', { tool: name, command: c });
+      const region = box && protectedRegionFor(bot, box.min, box.max);
+      if (region) return policyDenied('protected_region', `Command targets protected region ${region.name ?? ''}`.trim(), { tool: name, command: c, region });
+    }
+  }
+
+  if (REGION_GUARDED_TOOLS.has(name) && args.x != null && args.y != null && args.z != null) {
+    const pos = new Vec3(Number(args.x), Number(args.y), Number(args.z)).floored();
+    const region = protectedRegionFor(bot, pos);
+    if (region) return policyDenied('protected_region', `Target is inside protected region ${region.name ?? ''}`.trim(), { tool: name, position: { x: pos.x, y: pos.y, z: pos.z }, region });
   }
+  if (name === 'digBlock' && bot) {
+    const denial = checkBlockBreakBudget(bot);
+    if (denial) return { ...denial, tool: name };
+  }
+  return null;
 }
 
 function configureMovementsDefaults(movements: any) {
   try {
-    movements.allowParkour = false;
-    movements.allowSprinting = true;
-    movements.canDig = true;
-    movements.maxDropDown = Math.min(3, movements.maxDropDown ?? 3);
+    const bot: Bot = movements.bot;
+    const profile = movementProfiles()[movementProfileName(bot)] ?? BUILTIN_MOVEMENT_PROFILES.default;
+    movements.allowParkour = profile.allowParkour;
+    movements.allowSprinting = profile.allowSprinting;
+    movements.canDig = profile.canDig;
+    movements.maxDropDown = profile.maxDropDown;
     // Prefer dry ground over liquids
-    (movements as any).liquidCost = 25;
+    movements.liquidCost = profile.liquidCost ?? botConfig(bot).liquidCost;
+    movements.allowEntityDetection = !profile.allowEntityClimbing;
+    const registry: any = (bot as any).registry;
+    if (!profile.canPlace) {
+      movements.scafoldingBlocks = [];
+      movements.allow1by1towers = false;
+    } else if (profile.scaffoldingBlocks) {
+      movements.scafoldingBlocks = profile.scaffoldingBlocks.map(n => registry?.itemsByName[n]?.id).filter((id: unknown) => id != null);
+    }
+    for (const name of profile.avoidBreaking) {
+      const id = registry?.blocksByName[name]?.id;
+      if (id != null) movements.blocksCantBreak?.add(id);
+    }
+    // Routes never dig or build inside protected regions, nor dig past the break budget
+    trackBlockBreaks(bot);
+    movements.exclusionAreasBreak?.push((block: any) => blockBreakDenial(bot, block.position) ? 100 : 0);
+    // Placement checks pass either the placed block or the one above it
+    movements.exclusionAreasPlace?.push((block: any) => protectedRegionFor(bot, block.position.offset(0, -1, 0), block.position) ? 100 : 0);
+    // Hazards are charged once per move, at the feet position it ends on. Step exclusion areas are
+    // consulted for the feet and head blocks, some twice, and moves over 100 are thrown away.
+    const stepCost = hazardStepCost(bot, movements.maxDropDown);
+    const getNeighbors = movements.getNeighbors?.bind(movements);
+    if (getNeighbors) movements.getNeighbors = (node: any) => {
+      const moves = getNeighbors(node);
+      for (const move of moves) move.cost += stepCost(move);
+      return moves;
+    };
   } catch {}
   return movements;
 }
@@ -82,13 +728,117 @@ function isDefenseActive(bot: Bot): boolean {
 }
 
 // Hostile detection helper
-function isHostileEntityName(name: string): boolean {
+function isHostileEntityName(name: string, bot?: Bot): boolean {
   const n = String(name || '').toLowerCase();
-  const hostile = [
-    'zombie','skeleton','creeper','spider','witch','drowned','husk','stray','pillager','vindicator','ravager',
-    'guardian','elder_guardian','phantom','slime','magma_cube','hoglin','zoglin','blaze','ghast','warden','evoker'
-  ];
-  return hostile.some(h => n.includes(h));
+  return botConfig(bot).hostileMobs.some(h => n.includes(String(h).toLowerCase()));
+}
+
+// ---- Hazards ----
+// One model for pathfinder step costs and isPositionSafe. Positions are where the bot's feet would be.
+type HazardType = 'lava' | 'fire' | 'magma' | 'powder_snow' | 'cliff' | 'hostile';
+type Hazard = { type: HazardType; at: XYZ; name?: string; height?: number; distance?: number };
+
+// Extra pathfinder cost per hazard type at a step; a plain walk step costs 1
+const HAZARD_COSTS: Record<HazardType, number> = { lava: 40, fire: 20, magma: 20, powder_snow: 30, cliff: 8, hostile: 15 };
+// Several hazards at one step add up to at most this: expensive, but still a way through
+const MAX_HAZARD_STEP_COST = 90;
+const MAX_CLIFF_SCAN = 24;
+const HORIZONTAL_DIRS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+type HostileSnapshot = Array<{ name: string; position: XYZ }>;
+
+function nearbyHostiles(bot: Bot, range = 64): HostileSnapshot {
+  const me = bot.entity?.position;
+  if (!me) return [];
+  const out: HostileSnapshot = [];
+  for (const e of Object.values(bot.entities) as any[]) {
+    if (!e?.position || e === bot.entity) continue;
+    const name = e.name || e.username || e.displayName;
+    if (!isHostileEntityName(name, bot) || e.position.distanceTo(me) > range) continue;
+    out.push({ name, position: xyz(e.position) });
+  }
+  return out;
+}
+
+const isEmptyBlock = (b: any) => !b || (b.boundingBox === 'empty' && !/water|lava/.test(b.name));
+
+// Terrain hazards only; hostile mobs move, so hostileHazards checks them separately
+function terrainHazards(bot: Bot, feet: XYZ, maxDropDown: number): Hazard[] {
+  const at = (dx: number, dy: number, dz: number) => bot.blockAt(new Vec3(feet.x + dx, feet.y + dy, feet.z + dz));
+  const hazards: Hazard[] = [];
+  const seen = new Set<HazardType>();
+  const add = (h: Hazard) => { if (!seen.has(h.type)) { seen.add(h.type); hazards.push(h); } };
+  for (const [dx, dz] of [[0, 0], ...HORIZONTAL_DIRS]) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const b = at(dx, dy, dz);
+      if (b?.name === 'lava' || b?.name === 'flowing_lava') add({ type: 'lava', at: xyz(b.position), name: b.name });
+      else if (b?.name === 'fire' || b?.name === 'soul_fire') add({ type: 'fire', at: xyz(b.position), name: b.name });
+    }
+  }
+  const below = at(0, -1, 0);
+  if (below?.name === 'magma_block') add({ type: 'magma', at: xyz(below.position), name: below.name });
+  for (const b of [at(0, 0, 0), below]) {
+    if (b?.name === 'powder_snow') add({ type: 'powder_snow', at: xyz(b.position), name: b.name });
+  }
+  // An open edge: a neighbouring column that falls further than the pathfinder may drop
+  if (below && !isEmptyBlock(below)) {
+    for (const [dx, dz] of HORIZONTAL_DIRS) {
+      if (!isEmptyBlock(at(dx, 0, dz)) || !isEmptyBlock(at(dx, 1, dz))) continue;
+      let depth = 0;
+      while (depth < MAX_CLIFF_SCAN && isEmptyBlock(at(dx, -1 - depth, dz))) depth++;
+      if (depth > maxDropDown) {
+        add({ type: 'cliff', at: { x: feet.x + dx, y: feet.y, z: feet.z + dz }, height: depth });
+        break;
+      }
+    }
+  }
+  return hazards;
+}
+
+function hostileHazards(feet: XYZ, hostiles: HostileSnapshot, radius: number): Hazard[] {
+  if (radius <= 0) return [];
+  let nearest: Hazard | null = null;
+  for (const h of hostiles) {
+    const distance = Math.hypot(h.position.x - (feet.x + 0.5), h.position.y - feet.y, h.position.z - (feet.z + 0.5));
+    if (distance <= radius && (!nearest || distance < nearest.distance!)) nearest = { type: 'hostile', at: h.position, name: h.name, distance: Math.round(distance * 10) / 10 };
+  }
+  return nearest ? [nearest] : [];
+}
+
+const hazardCost = (hazards: Hazard[]) => hazards.reduce((sum, h) => sum + HAZARD_COSTS[h.type], 0);
+
+// Extra cost of a pathfinder move ending with the feet at `p`. Terrain is cached per Movements;
+// hostile positions are re-read at most once a second so long path searches see mobs move
+function hazardStepCost(bot: Bot, maxDropDown: number): (p: XYZ) => number {
+  const terrain = new Map<string, number>();
+  let hostiles = nearbyHostiles(bot);
+  let hostilesAt = Date.now();
+  return (p: XYZ) => {
+    const key = `${p.x},${p.y},${p.z}`;
+    let cost = terrain.get(key);
+    if (cost == null) {
+      cost = hazardCost(terrainHazards(bot, p, maxDropDown));
+      terrain.set(key, cost);
+    }
+    if (Date.now() - hostilesAt > 1000) {
+      hostiles = nearbyHostiles(bot);
+      hostilesAt = Date.now();
+    }
+    return Math.min(MAX_HAZARD_STEP_COST, cost + hazardCost(hostileHazards(p, hostiles, botConfig(bot).hostileAvoidRadius)));
+  };
+}
+
+async function isPositionSafe(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const hasTarget = params.x != null && params.y != null && params.z != null;
+  if (!hasTarget && (params.x != null || params.y != null || params.z != null)) return { ok: false, error: 'invalid_position', message: 'x, y and z must be given together' };
+  const feet = hasTarget ? new Vec3(Number(params.x), Number(params.y), Number(params.z)).floored() : bot.entity.position.floored();
+  const profile = movementProfiles()[movementProfileName(bot)] ?? BUILTIN_MOVEMENT_PROFILES.default;
+  const radius = params.hostileRadius != null ? Number(params.hostileRadius) : botConfig(bot).hostileAvoidRadius;
+  const hazards = [...terrainHazards(bot, feet, profile.maxDropDown), ...hostileHazards(feet, nearbyHostiles(bot), radius)];
+  const below = bot.blockAt(feet.offset(0, -1, 0));
+  const standable = isEmptyBlock(bot.blockAt(feet)) && isEmptyBlock(bot.blockAt(feet.offset(0, 1, 0))) && !isEmptyBlock(below);
+  return { ok: true, position: xyz(feet), safe: hazards.length === 0, standable, hazards, cost: hazardCost(hazards) };
 }
 
 // Prevent process crashes on unexpected async errors
@@ -101,12 +851,26 @@ process.on('uncaughtException', (err: any) => {
 
 function getBotOrThrow(username?: string): Bot {
   if (username && bots.has(username)) return bots.get(username)!;
-  if (username && !bots.has(username)) throw new Error(`Bot '${username}' not found`);
+  if (username && !bots.has(username)) {
+    const rs = reconnectStates.get(username);
+    if (rs?.status === 'reconnecting') throw new Error(`Bot '${username}' is reconnecting (attempt ${rs.attempt}/${rs.maxAttempts}, last disconnect: ${rs.reason})`);
+    if (rs?.status === 'gave_up') throw new Error(`Bot '${username}' disconnected; reconnect gave up after ${rs.attempt} attempts (${rs.reason})`);
+    throw new Error(`Bot '${username}' not found`);
+  }
+  // Over HTTP, default to a bot this session created before falling back to any bot
+  const sessionId = taskContext.getStore()?.sessionId;
+  const own = sessionId ? [...bots.values()].find(b => (b as any).__ownerSession === sessionId) : undefined;
+  if (own) return own;
   const [first] = bots.values();
   if (!first) throw new Error("No active bots. Use joinGame first.");
   return first;
 }
 
+// Registry key for a bot; differs from bot.username for Microsoft accounts (email vs gamertag)
+function botKey(bot: Bot): string {
+  return (bot as any).__botKey ?? bot.username;
+}
+
 // Helpers
 async function pathfindToPredicate(bot: Bot, predicate: (b: any) => boolean, maxDistance = 32, range = 1, timeoutMs = 45000) {
   const block = bot.findBlock({ matching: (b: any) => !!b && predicate(b), maxDistance });
@@ -231,16 +995,19 @@ async function collectBlockWithTimeout(bot: Bot, block: any, timeoutMs = 30000)
   const rawTask: Promise<any> = (bot as any).collectBlock.collect(block);
   // Attach catch so rejections are handled even if we time out
   const guardedTask = rawTask.catch((e) => { throw e; });
+  let timer: NodeJS.Timeout | undefined;
   try {
     await Promise.race([
       guardedTask,
-      new Promise((_, rej) => setTimeout(() => rej(new Error('collect_timeout')), timeoutMs))
+      new Promise((_, rej) => { timer = setTimeout(() => rej(new Error('collect_timeout')), timeoutMs); })
     ]);
   } catch (e) {
     try { (bot as any).collectBlock?.cancelTask?.(); } catch {}
     // Ensure any late rejections are consumed
     try { rawTask.catch(() => {}); } catch {}
     throw e;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
@@ -248,15 +1015,17 @@ async function collectBlockWithTimeout(bot: Bot, block: any, timeoutMs = 30000)
 async function digBlockWithTimeout(bot: Bot, block: any, timeoutMs = 30000) {
   let finished = false;
   const digging = bot.dig(block as any).then(() => { finished = true; });
+  let timer: NodeJS.Timeout | undefined;
   try {
     await Promise.race([
       digging,
-      new Promise((_, rej) => setTimeout(() => {
+      new Promise((_, rej) => { timer = setTimeout(() => {
         try { (bot as any).stopDigging?.(); } catch {}
         rej(new Error('dig_timeout'));
-      }, timeoutMs))
+      }, timeoutMs); })
     ]);
   } finally {
+    clearTimeout(timer);
     // Ensure we consume any late rejections
     try { (digging as any).catch?.(() => {}); } catch {}
   }
@@ -304,12 +1073,14 @@ async function attemptUnstuck(bot: Bot) {
   } catch {}
 }
 
-function getStatus(bot: Bot) {
+// consume=false leaves one-shot fields in place so resource reads have no side effects
+function getStatus(bot: Bot, consume = true) {
   const last = (bot as any).__lastDamage || null;
   const lastBroken = (bot as any).__lastBroken || null;
   const lastDefense = (bot as any).__lastDefense || null;
   const lastDeath = (bot as any).__lastDeath || null;
   const lastHungerWarning = (bot as any).__lastHungerWarning || null;
+  const lastReconnect = (bot as any).__lastReconnect || null;
   const isDrowning = bot.oxygenLevel !== undefined && bot.oxygenLevel < 10;
   const effects = Object.values((bot as any).__effects || {}).map((e: any) => ({ id: e.id, amplifier: e.amplifier, duration: e.duration }));
   const pos = bot.entity?.position;
@@ -329,7 +1100,7 @@ function getStatus(bot: Bot) {
     if (typeof prevEmpty === 'number' && emptySlots === 0 && prevEmpty > 0) {
       invFullWarning = { time: Date.now() };
     }
-    (bot as any).__prevEmptySlots = emptySlots;
+    if (consume) (bot as any).__prevEmptySlots = emptySlots;
   } catch {}
   // Time of day
   let timeOfDay: number | undefined;
@@ -376,21 +1147,38 @@ function getStatus(bot: Bot) {
     biome,
     area,
     isInWater,
+    dimension: currentDimension(bot),
+    vehicle: vehicleInfo(bot),
     isOnGround: !!(bot.entity?.onGround),
     oxygenLevel: bot.oxygenLevel,
     isDrowning
   };
-  // Clear lastBroken after reporting (one-shot)
-  (bot as any).__lastBroken = null;
-  // Clear lastDamage after reporting (one-shot)
-  (bot as any).__lastDamage = null;
-  // Clear lastDefense after reporting (one-shot)
-  (bot as any).__lastDefense = null;
-  // Clear lastDeath after reporting (one-shot)
-  (bot as any).__lastDeath = null;
-  // Clear hunger warning after reporting (one-shot)
-  (bot as any).__lastHungerWarning = null;
-  return { health: bot.health, food: bot.food, lastDamage: last, lastBroken, lastDefense, lastDeath, lastHungerWarning, inventory, invFullWarning, effects, env };
+  if (consume) {
+    // Clear lastBroken after reporting (one-shot)
+    (bot as any).__lastBroken = null;
+    // Clear lastDamage after reporting (one-shot)
+    (bot as any).__lastDamage = null;
+    // Clear lastDefense after reporting (one-shot)
+    (bot as any).__lastDefense = null;
+    // Clear lastDeath after reporting (one-shot)
+    (bot as any).__lastDeath = null;
+    // Clear hunger warning after reporting (one-shot)
+    (bot as any).__lastHungerWarning = null;
+    // Clear reconnect notice after reporting (one-shot)
+    (bot as any).__lastReconnect = null;
+  }
+  return { health: bot.health, food: bot.food, connection: connectionInfo(bot), lastDamage: last, lastBroken, lastDefense, lastDeath, lastHungerWarning, lastReconnect, inventory, invFullWarning, effects, env };
+}
+
+function connectionInfo(bot: Bot) {
+  const server = (bot as any).__server as { host: string; port: number } | undefined;
+  const ping = (bot as any).player?.ping;
+  return {
+    state: (bot as any).__loggedIn ? 'connected' : 'connecting',
+    server: server ? `${server.host}:${server.port}` : undefined,
+    ping: typeof ping === 'number' ? ping : null,
+    connectedAt: (bot as any).__connectedAt ? new Date((bot as any).__connectedAt).toISOString() : undefined
+  };
 }
 
 function resolveBlockAliases(name: string, mcData: any): string[] {
@@ -510,13 +1298,151 @@ async function raiseShieldFor(bot: Bot, durationMs: number) {
   }
 }
 
-async function joinGame(params: Record<string, unknown>) {
+// ---- Reconnect policy ----
+type ReconnectPolicy = { maxAttempts: number; initialDelayMs: number; maxDelayMs: number };
+// Per-bot settings carried over when a bot is re-created after a disconnect
+type BotSettings = {
+  selfDefense?: { enabled: boolean; durationMs: number };
+  autoShield?: { enabled: boolean; durationMs: number };
+  autoEat?: { enabled: boolean; warnCooldownMs: number };
+  configOverrides?: Partial<BotConfig>;
+  ownerSession?: string;
+};
+type ReconnectState = {
+  status: 'reconnecting' | 'gave_up';
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+  disconnectedAt: number;
+  nextAttemptAt?: number;
+  timer?: NodeJS.Timeout;
+};
+const reconnectStates: Map<string, ReconnectState> = new Map();
+
+function parseReconnectPolicy(value: unknown): ReconnectPolicy | null {
+  if (!value) return null;
+  const v: any = typeof value === 'object' ? value : {};
+  return {
+    maxAttempts: Math.max(1, Number(v.maxAttempts ?? 5)),
+    initialDelayMs: Math.max(100, Number(v.initialDelayMs ?? 2000)),
+    maxDelayMs: Math.max(100, Number(v.maxDelayMs ?? 60000))
+  };
+}
+
+function snapshotBotSettings(bot: Bot): BotSettings {
+  const eat = (bot as any).__autoEatCfg;
+  return {
+    selfDefense: (bot as any).__selfDefense ? { ...(bot as any).__selfDefense } : undefined,
+    autoShield: (bot as any).__autoShield ? { ...(bot as any).__autoShield } : undefined,
+    autoEat: eat ? { enabled: eat.enabled, warnCooldownMs: eat.warnCooldownMs } : undefined,
+    configOverrides: (bot as any).__configOverrides ? { ...(bot as any).__configOverrides } : undefined,
+    ownerSession: (bot as any).__ownerSession
+  };
+}
+
+function cancelReconnect(username: string): boolean {
+  const state = reconnectStates.get(username);
+  if (!state) return false;
+  if (state.timer) clearTimeout(state.timer);
+  reconnectStates.delete(username);
+  return true;
+}
+
+function scheduleReconnect(username: string, params: Record<string, unknown>, settings: BotSettings, policy: ReconnectPolicy, attempt: number, reason: string, disconnectedAt: number) {
+  if (attempt > policy.maxAttempts) {
+    reconnectStates.set(username, { status: 'gave_up', attempt: attempt - 1, maxAttempts: policy.maxAttempts, reason, disconnectedAt });
+    log(`reconnect for '${username}' gave up after ${attempt - 1} attempts: ${reason}`);
+    return;
+  }
+  // Exponential backoff with a little jitter so several bots don't reconnect in lockstep
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  const delay = Math.round(base * (1 + Math.random() * 0.2));
+  const state: ReconnectState = { status: 'reconnecting', attempt, maxAttempts: policy.maxAttempts, reason, disconnectedAt, nextAttemptAt: Date.now() + delay };
+  state.timer = setTimeout(async () => {
+    if (reconnectStates.get(username) !== state) return;
+    let res: any;
+    try { res = await joinGame(params, settings); } catch (e: any) { res = { ok: false, message: String(e?.message || e) }; }
+    if (reconnectStates.get(username) !== state) return;
+    if (res?.ok) {
+      reconnectStates.delete(username);
+      const bot = bots.get(username);
+      if (bot) (bot as any).__lastReconnect = { attempts: attempt, reason, downtimeMs: Date.now() - disconnectedAt, time: Date.now() };
+      log(`reconnected '${username}' after ${attempt} attempt(s)`);
+      return;
+    }
+    scheduleReconnect(username, params, settings, policy, attempt + 1, res?.reason || res?.message || 'unknown', disconnectedAt);
+  }, delay);
+  reconnectStates.set(username, state);
+  log(`reconnecting '${username}' in ${delay}ms (attempt ${attempt}/${policy.maxAttempts}): ${reason}`);
+}
+
+// Flatten a kick reason (plain string, JSON string or chat component) to text
+function kickReasonText(reason: any): string {
+  let r = reason;
+  if (typeof r === 'string') {
+    try { r = JSON.parse(r); } catch { return r; }
+  }
+  if (r == null) return '';
+  if (typeof r !== 'object') return String(r);
+  const parts: string[] = [];
+  const walk = (c: any) => {
+    if (c == null) return;
+    if (typeof c === 'string') { parts.push(c); return; }
+    if (c.text) parts.push(String(c.text));
+    if (c.translate) parts.push(String(c.translate));
+    if (Array.isArray(c.with)) c.with.forEach(walk);
+    if (Array.isArray(c.extra)) c.extra.forEach(walk);
+  };
+  walk(r);
+  return parts.join('') || JSON.stringify(r);
+}
+
+// Map connection errors and kick messages to a stable reason the agent can act on
+function classifyJoinFailure(message: string, code?: string): string {
+  const m = message.toLowerCase();
+  if (code === 'ECONNREFUSED') return 'connection_refused';
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'host_not_found';
+  if (code === 'ETIMEDOUT' || m.includes('timed out')) return 'connection_timeout';
+  if (/outdated (client|server)|unsupported protocol|incompatible|version/.test(m)) return 'version_mismatch';
+  if (/white-?list/.test(m)) return 'not_whitelisted';
+  if (m.includes('banned')) return 'banned';
+  if (/failed to verify username|invalid session|not authenticated|authentication|xsts|msa|xbox|token|premium|login/.test(m)) return 'auth_failed';
+  if (m.includes('already') && m.includes('logged')) return 'duplicate_login';
+  return 'kicked';
+}
+
+// `restore` is only passed by scheduleReconnect when re-creating a dropped bot
+async function joinGame(rawParams: Record<string, unknown>, restore?: BotSettings) {
+  const params = resolveJoinParams(rawParams);
   const username = String(params.username || "Agent");
   const host = params.host ? String(params.host) : "localhost";
   const port = params.port ? Number(params.port) : 25565;
   if (bots.has(username)) throw new Error(`Bot '${username}' already exists`);
+  const reconnectPolicy = parseReconnectPolicy(params.reconnect);
+  // A manual join supersedes any pending or failed automatic reconnect
+  if (!restore) cancelReconnect(username);
+
+  const auth = params.auth ? String(params.auth) : 'offline';
+  // hideErrors: mineflayer otherwise console.logs connection errors onto the MCP stdout channel
+  const options: any = { host, port, username, auth, hideErrors: true };
+  const requestedVersion = params.version ? String(params.version) : undefined;
+  if (requestedVersion) options.version = requestedVersion;
+  if (params.password) options.password = String(params.password);
+  if (params.viewDistance != null) options.viewDistance = params.viewDistance;
+  if (params.skipValidation != null) options.skipValidation = Boolean(params.skipValidation);
+  if (auth === 'microsoft') {
+    // Cached tokens let later joins skip the device-code login
+    options.profilesFolder = params.profilesFolder ? String(params.profilesFolder) : undefined;
+    // Device-code prompts must not go to stdout (MCP stdio channel)
+    options.onMsaCode = (data: any) => log(`microsoft login for '${username}': open ${data?.verification_uri} and enter code ${data?.user_code}`);
+  }
 
-  const bot = mineflayer.createBot({ host, port, username });
+  const bot = createBot(options);
+  ;(bot as any).__botKey = username;
+  ;(bot as any).__server = { host, port };
+  ;(bot as any).__ownerSession = restore ? restore.ownerSession : taskContext.getStore()?.sessionId;
+  ;(bot as any).__profile = params.profile != null ? String(params.profile) : undefined;
+  ;(bot as any).__configOverrides = restore?.configOverrides;
   bot.loadPlugin(pathfinder);
   bot.loadPlugin(armorManager as any);
   bot.loadPlugin(pvp as any);
@@ -528,11 +1454,12 @@ async function joinGame(params: Record<string, unknown>) {
   ;(bot as any).__lastHealth = bot.health;
   ;(bot as any).__lastFood = bot.food;
   ;(bot as any).__lastDamage = null;
-  ;(bot as any).__selfDefense = { enabled: true, durationMs: 10000 };
-  ;(bot as any).__autoShield = { enabled: true, durationMs: 800 };
+  ;(bot as any).__selfDefense = restore?.selfDefense ?? { enabled: true, durationMs: 10000 };
+  ;(bot as any).__autoShield = restore?.autoShield ?? { enabled: true, durationMs: 800 };
   bot.on('health', () => {
     ;(bot as any).__lastHealth = bot.health;
     ;(bot as any).__lastFood = bot.food;
+    notifyResourceUpdated(username, 'status');
   });
   // Track effects
   ;(bot as any).__effects = {};
@@ -552,6 +1479,7 @@ async function joinGame(params: Record<string, unknown>) {
         from: attacker?.name || attacker?.username || attacker?.displayName || 'unknown',
         time: Date.now()
       };
+      notifyResourceUpdated(username, 'status');
       const sd = (bot as any).__selfDefense;
       if (sd?.enabled && attacker) {
         try {
@@ -605,12 +1533,16 @@ async function joinGame(params: Record<string, unknown>) {
       const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
       (bot as any).__mcdata = mcData;
     } catch {}
+    // A bot that left while mcData loaded must not start the intervals below
+    if ((bot as any).__ended) return;
     // Detect equipment/armor breaking via inventory slot updates
     try {
       const inv: any = (bot as any).inventory;
       if (inv?.on && !inv.__mcpListenerAttached) {
         inv.__mcpListenerAttached = true;
         inv.on('updateSlot', (slot: number, oldItem: any, newItem: any) => {
+          notifyResourceUpdated(username, 'inventory');
+          notifyResourceUpdated(username, 'equipment');
           try {
             if (oldItem && !newItem) {
               const mcData = (bot as any).__mcdata;
@@ -627,12 +1559,13 @@ async function joinGame(params: Record<string, unknown>) {
 
     // Inherent auto-eat with warnings when hungry and no food
     try {
-      const hungerThreshold = 15;
-      ;(bot as any).__autoEatCfg = { enabled: true, threshold: hungerThreshold, warnCooldownMs: 30000, lastWarnAt: 0, lastTriedAt: 0, isEating: false };
+      ;(bot as any).__autoEatCfg = { enabled: true, warnCooldownMs: 30000, ...restore?.autoEat, lastWarnAt: 0, lastTriedAt: 0, isEating: false };
       // @ts-ignore
-      if ((bot as any).autoEat) (bot as any).autoEat.options = { priority: "foodPoints", minHunger: hungerThreshold };
+      if ((bot as any).autoEat) (bot as any).autoEat.options = { priority: "foodPoints", minHunger: botConfig(bot).autoEatThreshold };
       ;(bot as any).__autoEatInterval = setInterval(async () => {
         try {
+          // Read each tick so setConfig takes effect without rejoining
+          const hungerThreshold = botConfig(bot).autoEatThreshold;
           if (!(bot as any).__autoEatCfg?.enabled) return;
           if (!bot.entity) return;
           if (bot.food >= hungerThreshold) return;
@@ -691,7 +1624,7 @@ async function joinGame(params: Record<string, unknown>) {
       }, 400);
     } catch {}
 
-    // Proactive self-defense: attack hostile mobs within 5 blocks
+    // Proactive self-defense: attack hostile mobs within the configured radius
     try {
       ;(bot as any).__proactiveDefense = setInterval(async () => {
         try {
@@ -699,9 +1632,9 @@ async function joinGame(params: Record<string, unknown>) {
           if (!sd?.enabled) return;
           const hostile = Object.values(bot.entities).find((e: any) => {
             if (!e || !e.position) return false;
-            if (!isHostileEntityName(e.name || e.username || e.displayName)) return false;
+            if (!isHostileEntityName(e.name || e.username || e.displayName, bot)) return false;
             const d = e.position.distanceTo(bot.entity.position);
-            return d <= 8.0;
+            return d <= botConfig(bot).defenseRadius;
           });
           if (!hostile) return;
           // Mark defense active to let task loops honor it
@@ -714,7 +1647,7 @@ async function joinGame(params: Record<string, unknown>) {
           const keepUntil = Date.now() + 30000; // hard ceiling to avoid infinite loops
           while (Date.now() < keepUntil) {
             const still = Object.values(bot.entities).find((e: any) => e && e.id === (hostile as any).id);
-            const nearby = still && (still as any).position && (still as any).position.distanceTo(bot.entity.position) <= 8.0;
+            const nearby = still && (still as any).position && (still as any).position.distanceTo(bot.entity.position) <= botConfig(bot).defenseRadius;
             if (!nearby) break;
             await bot.waitForTicks(5);
           }
@@ -728,17 +1661,34 @@ async function joinGame(params: Record<string, unknown>) {
   });
 
   bot.on("end", () => {
+    ;(bot as any).__ended = true;
     try { clearInterval((bot as any).__autoEatInterval); } catch {}
     try { clearInterval((bot as any).__shieldScan); } catch {}
     try { clearInterval((bot as any).__proactiveDefense); } catch {}
     if (bots.get(username) === bot) bots.delete(username);
+    failQueuedTasks(getTask(bot), 'bot_disconnected');
+    notifyResourceListChanged();
+    // Only bots that were in game and not asked to leave are brought back
+    if (reconnectPolicy && (bot as any).__loggedIn && !(bot as any).__leaving) {
+      const reason = (bot as any).__endReason || 'disconnected';
+      scheduleReconnect(username, params, snapshotBotSettings(bot), reconnectPolicy, 1, reason, Date.now());
+    }
   });
-
+  // @ts-ignore
+  bot.on("kicked", (reason: any) => { (bot as any).__endReason = `kicked: ${kickReasonText(reason)}`; });
+
+  ensureChatLog(bot);
+  ensureEventLog(bot);
+  trackAutoWaypoints(bot);
+  trackVisitedChunks(bot);
+  trackWorldMemory(bot);
+  trackBlockBreaks(bot);
   bots.set(username, bot);
-  await new Promise<void>((resolve, reject) => {
-    const onLogin = () => { cleanup(); resolve(); };
-    const onError = (e: Error) => { cleanup(); reject(e); };
-    const onKicked = (reason: any) => { cleanup(); reject(new Error(String(reason))); };
+  notifyResourceListChanged();
+  const failure = await new Promise<null | { message: string; code?: string }>((resolve) => {
+    const onLogin = () => { cleanup(); (bot as any).__loggedIn = true; (bot as any).__connectedAt = Date.now(); resolve(null); };
+    const onError = (e: any) => { cleanup(); resolve({ message: String(e?.message || e), code: e?.code }); };
+    const onKicked = (reason: any) => { cleanup(); resolve({ message: kickReasonText(reason) }); };
     const cleanup = () => {
       bot.removeListener("login", onLogin);
       bot.removeListener("error", onError);
@@ -750,74 +1700,1017 @@ async function joinGame(params: Record<string, unknown>) {
     // @ts-ignore
     bot.once("kicked", onKicked);
   });
+  if (failure) {
+    if (bots.get(username) === bot) bots.delete(username);
+    try { bot.end(); } catch {}
+    notifyResourceListChanged();
+    return { ok: false, username, error: 'join_failed', reason: classifyJoinFailure(failure.message, failure.code), message: failure.message, auth, requestedVersion };
+  }
 
-  return { ok: true, username };
+  return { ok: true, username, session: (bot as any).__ownerSession, version: bot.version, auth, reconnect: reconnectPolicy ?? undefined };
 }
 
 async function leaveGame(params: Record<string, unknown>) {
   const username = params.username ? String(params.username) : undefined;
   const disconnectAll = Boolean(params.disconnectAll);
   if (disconnectAll) {
+    // An HTTP session only disconnects the bots it created
+    const sessionId = taskContext.getStore()?.sessionId;
     for (const [name, bot] of bots) {
+      if (sessionId && (bot as any).__ownerSession !== sessionId) continue;
+      (bot as any).__leaving = true;
       bot.end();
       bots.delete(name);
     }
+    if (!sessionId) for (const name of [...reconnectStates.keys()]) cancelReconnect(name);
     return { ok: true, disconnected: "all" };
   }
+  // Leaving a bot that is between reconnect attempts just stops the attempts
+  if (username && !bots.has(username) && cancelReconnect(username)) return { ok: true, username, reconnectCancelled: true };
   const bot = getBotOrThrow(username);
+  (bot as any).__leaving = true;
   bot.end();
-  bots.delete(bot.username);
-  return { ok: true, username: bot.username };
+  const key = botKey(bot);
+  bots.delete(key);
+  return { ok: true, username: key };
 }
 
-async function goToKnownLocation(params: Record<string, unknown>) {
-  const bot = getBotOrThrow(String(params.username || ""));
-  const x = Number(params.x), y = Number(params.y), z = Number(params.z);
-  const range = params.range ? Number(params.range) : 1;
-  const maxMs = Number((params as any).maxMs ?? 60000);
-  const mcDataMod = await import("minecraft-data");
-  const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
-  const movements = configureMovementsDefaults(new Movements(bot));
-  bot.pathfinder.setMovements(movements);
-  bot.pathfinder.setGoal(new goals.GoalNear(x, y, z, range));
-  const target = new Vec3(x, y, z);
-  const start = Date.now();
-  let arrived = false;
-  let lastProgressAt = start;
-  let best = Infinity;
-  while (Date.now() - start < maxMs || isDefenseActive(bot)) {
-    const d = bot.entity.position.distanceTo(target);
-    if (d <= Math.max(1, range) + 0.5) { arrived = true; break; }
-    if (d + 0.25 < best) { best = d; lastProgressAt = Date.now(); }
-    if (!isDefenseActive(bot) && Date.now() - lastProgressAt > 15000) {
-      await attemptUnstuck(bot);
-      best = Infinity;
-      lastProgressAt = Date.now();
-    }
-    await bot.waitForTicks(5);
+// ---- Fleet ----
+const MAX_JOIN_MANY = 20;
+
+async function listBots(_params: Record<string, unknown>) {
+  const list: any[] = [];
+  for (const [name, bot] of bots) {
+    const task = getTask(bot);
+    const pos = bot.entity?.position;
+    list.push({
+      username: name,
+      ...connectionInfo(bot),
+      connected: !!(bot as any).__loggedIn,
+      task: task.current ? { tool: task.current.tool, jobId: task.current.jobId, runningMs: Date.now() - task.current.startedAt, queued: task.queue.length } : null,
+      position: pos ? { x: pos.x, y: pos.y, z: pos.z } : undefined,
+      health: bot.health,
+      food: bot.food
+    });
   }
-  try { bot.pathfinder.stop(); } catch {}
-  const dist = bot.entity.position.distanceTo(target);
-  return { ok: arrived, arrived, distance: dist, timedOut: !arrived };
+  // Bots between reconnect attempts are not in the registry but are still part of the fleet
+  for (const [name, rs] of reconnectStates) {
+    if (bots.has(name)) continue;
+    list.push({ username: name, state: rs.status, connected: false, attempt: rs.attempt, maxAttempts: rs.maxAttempts, reason: rs.reason, nextAttemptAt: rs.nextAttemptAt ? new Date(rs.nextAttemptAt).toISOString() : undefined });
+  }
+  return { ok: true, count: list.length, bots: list };
 }
 
-async function goToSomeone(params: Record<string, unknown>) {
+// Reads status without clearing one-shot fields, unlike the status attached to tool results
+async function getBotStatus(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  const targetName = String(params.userName || params.username || "");
-  const player = bot.players[targetName]?.entity;
-  if (!player) throw new Error(`Player '${targetName}' not found`);
-  const mcDataMod = await import("minecraft-data");
-  const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
-  const movements = configureMovementsDefaults(new Movements(bot));
-  bot.pathfinder.setMovements(movements);
-  bot.pathfinder.setGoal(new goals.GoalFollow(player, Number(params.distance ?? 3)));
-  return { ok: true };
+  return { ok: true, username: botKey(bot), state: getStatus(bot, false) };
 }
 
-async function sendChat(params: Record<string, unknown>) {
-  const bot = getBotOrThrow(String(params.username || ""));
-  const message = String(params.message || "");
-  bot.chat(message);
+function expandNameTemplate(template: string, n: number): string {
+  return template.includes('{n}') ? template.split('{n}').join(String(n)) : `${template}${n}`;
+}
+
+async function joinMany(params: Record<string, unknown>) {
+  const { template, count: rawCount, start: rawStart, staggerMs: rawStagger, ...joinParams } = params;
+  const count = Number(rawCount);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_JOIN_MANY) throw new Error(`count must be an integer between 1 and ${MAX_JOIN_MANY}`);
+  const start = Number(rawStart ?? 1);
+  const staggerMs = Math.max(0, Number(rawStagger ?? 2000));
+  const names = Array.from({ length: count }, (_, i) => expandNameTemplate(String(template), start + i));
+  // Names are checked up front so a bad template does not leave half a fleet behind
+  if (new Set(names).size !== names.length) throw new Error('template must produce distinct names (use {n})');
+  if (names.some(n => n.length > 16)) return { ok: false, error: 'invalid_name', message: 'Generated usernames must be at most 16 characters', names };
+  const denial = checkToolPolicy('joinGame', joinParams);
+  if (denial) return denial;
+  const signal = taskContext.getStore()?.signal;
+  const results: any[] = [];
+  for (let i = 0; i < names.length; i++) {
+    // Servers throttle rapid logins from one address, so connects are spaced out
+    if (i > 0 && staggerMs) await new Promise(r => setTimeout(r, staggerMs));
+    if (signal?.aborted) { results.push(...names.slice(i).map(username => ({ ok: false, username, error: 'cancelled' }))); break; }
+    try {
+      results.push(await joinGame({ ...joinParams, username: names[i] }));
+    } catch (e: any) {
+      results.push({ ok: false, username: names[i], error: String(e?.message || e) });
+    }
+  }
+  const joined = results.filter(r => r.ok).map(r => r.username);
+  return { ok: joined.length > 0, requested: count, joined, failed: results.filter(r => !r.ok), results };
+}
+
+// ---- Waypoints ----
+type AutoWaypointKind = 'spawn' | 'bed' | 'chest' | 'crafting_table' | 'portal';
+type Waypoint = {
+  name: string;
+  x: number; y: number; z: number;
+  // Bot that owns the waypoint; shared waypoints have none and are visible to every bot on the server
+  owner?: string;
+  auto?: AutoWaypointKind;
+  note?: string;
+  createdAt: string;
+};
+// server ("host:port") -> dimension -> waypoints
+type WaypointStore = Record<string, Record<string, Waypoint[]>>;
+
+let waypointsPath: string | null = null;
+let waypointStore: Promise<WaypointStore> | null = null;
+let waypointWrites: Promise<void> = Promise.resolve();
+// Chests and crafting tables are remembered per bot, newest first, up to this many of each
+const MAX_AUTO_WAYPOINTS = 10;
+
+function configureWaypoints(file: string | undefined) {
+  waypointsPath = file ? String(file) : null;
+  waypointStore = null;
+}
+
+async function waypointsFile(): Promise<string> {
+  if (waypointsPath) return waypointsPath;
+  if (process.env.MCP_WAYPOINTS_FILE) return process.env.MCP_WAYPOINTS_FILE;
+  const os = await import('node:os');
+  const path = await import('node:path');
+  return path.join(os.homedir(), '.minecraft-mcp', 'waypoints.json');
+}
+
+function loadWaypoints(): Promise<WaypointStore> {
+  if (!waypointStore) {
+    waypointStore = (async () => {
+      const fs = await import('node:fs/promises');
+      const file = await waypointsFile();
+      try {
+        const raw = JSON.parse(await fs.readFile(file, 'utf8'));
+        return raw && typeof raw.servers === 'object' ? raw.servers as WaypointStore : {};
+      } catch (e: any) {
+        if (e?.code !== 'ENOENT') log(`waypoints: could not read ${file}`, e?.message || e);
+        return {};
+      }
+    })();
+  }
+  return waypointStore;
+}
+
+// Writes are chained and go through a temp file so a crash never leaves half a JSON document
+function saveWaypoints(store: WaypointStore): Promise<void> {
+  waypointWrites = waypointWrites.then(async () => {
+    try {
+      const fs = await import('node:fs/promises');
+      const path = await import('node:path');
+      const file = await waypointsFile();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ servers: store }, null, 2), 'utf8');
+      await fs.rename(`${file}.tmp`, file);
+    } catch (e) {
+      log('waypoints write failed', e as any);
+    }
+  });
+  return waypointWrites;
+}
+
+function waypointScope(bot: Bot): { server: string; dimension: string } {
+  const server = (bot as any).__server as { host: string; port: number } | undefined;
+  return { server: server ? `${server.host}:${server.port}` : 'unknown', dimension: currentDimension(bot) };
+}
+
+// Waypoints this bot can see in one dimension: its own plus shared ones
+function visibleWaypoints(store: WaypointStore, server: string, dimension: string, owner: string): Waypoint[] {
+  return (store[server]?.[dimension] ?? []).filter(w => !w.owner || w.owner === owner);
+}
+
+// The bot's own waypoint wins over a shared one with the same name
+function findWaypoint(store: WaypointStore, server: string, dimension: string, owner: string, name: string): Waypoint | undefined {
+  const matches = visibleWaypoints(store, server, dimension, owner).filter(w => w.name === name);
+  return matches.find(w => w.owner === owner) ?? matches[0];
+}
+
+async function putWaypoint(server: string, dimension: string, wp: Waypoint): Promise<void> {
+  const store = await loadWaypoints();
+  const list = ((store[server] ??= {})[dimension] ??= []);
+  const i = list.findIndex(w => w.name === wp.name && w.owner === wp.owner);
+  if (i >= 0) list[i] = wp; else list.push(wp);
+  if (wp.auto === 'chest' || wp.auto === 'crafting_table' || wp.auto === 'portal') {
+    const same = list.filter(w => w.auto === wp.auto && w.owner === wp.owner).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    for (const old of same.slice(MAX_AUTO_WAYPOINTS)) list.splice(list.indexOf(old), 1);
+  }
+  await saveWaypoints(store);
+}
+
+// Best effort: a failed auto-waypoint must never fail the tool that triggered it
+function recordAutoWaypoint(bot: Bot, kind: AutoWaypointKind, pos: { x: number; y: number; z: number } | undefined) {
+  if (!pos) return;
+  const { server, dimension } = waypointScope(bot);
+  const x = Math.floor(pos.x), y = Math.floor(pos.y), z = Math.floor(pos.z);
+  const name = kind === 'spawn' || kind === 'bed' ? kind : `${kind}_${x}_${y}_${z}`;
+  putWaypoint(server, dimension, { name, x, y, z, owner: botKey(bot), auto: kind, createdAt: new Date().toISOString() })
+    .catch(e => log('auto waypoint failed', e));
+}
+
+function trackAutoWaypoints(bot: Bot) {
+  bot.on("spawn", () => {
+    const sp = (bot as any).spawnPoint;
+    recordAutoWaypoint(bot, 'spawn', sp && (sp.x || sp.y || sp.z) ? sp : bot.entity?.position);
+  });
+}
+
+async function setWaypoint(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const name = String(params.name || '').trim();
+  if (!name) throw new Error('name required');
+  const coords = [params.x, params.y, params.z];
+  if (coords.some(v => v != null) && !coords.every(v => typeof v === 'number')) throw new Error('Provide all of x, y, z or none');
+  const pos = coords.every(v => typeof v === 'number') ? { x: Number(params.x), y: Number(params.y), z: Number(params.z) } : bot.entity?.position;
+  if (!pos) throw new Error('Bot position unknown');
+  const { server, dimension } = waypointScope(bot);
+  const wp: Waypoint = {
+    name,
+    x: Math.floor(pos.x), y: Math.floor(pos.y), z: Math.floor(pos.z),
+    owner: params.shared ? undefined : botKey(bot),
+    note: params.note != null ? String(params.note) : undefined,
+    createdAt: new Date().toISOString()
+  };
+  await putWaypoint(server, dimension, wp);
+  return { ok: true, server, dimension, waypoint: wp };
+}
+
+async function listWaypoints(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const { server, dimension: current } = waypointScope(bot);
+  const store = await loadWaypoints();
+  const wanted = params.dimension ? String(params.dimension).replace(/^minecraft:/, '') : current;
+  const dimensions = wanted === 'all' ? Object.keys(store[server] ?? {}) : [wanted];
+  const pos = bot.entity?.position;
+  const waypoints = dimensions.flatMap(dimension => visibleWaypoints(store, server, dimension, botKey(bot)).map(w => ({
+    ...w,
+    dimension,
+    shared: !w.owner,
+    distance: dimension === current && pos ? Math.round(pos.distanceTo(new Vec3(w.x, w.y, w.z)) * 10) / 10 : undefined
+  })));
+  waypoints.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity) || a.name.localeCompare(b.name));
+  return { ok: true, server, dimension: current, waypoints };
+}
+
+async function deleteWaypoint(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const name = String(params.name || '');
+  const { server, dimension: current } = waypointScope(bot);
+  const dimension = params.dimension ? String(params.dimension).replace(/^minecraft:/, '') : current;
+  const store = await loadWaypoints();
+  const list = store[server]?.[dimension] ?? [];
+  const owner = params.shared ? undefined : botKey(bot);
+  const i = list.findIndex(w => w.name === name && w.owner === owner);
+  if (i < 0) return { ok: false, error: 'waypoint_not_found', name, dimension, shared: !owner };
+  const [removed] = list.splice(i, 1);
+  await saveWaypoints(store);
+  return { ok: true, removed: { ...removed, dimension } };
+}
+
+async function goToWaypoint(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const name = String(params.name || '');
+  const { server, dimension } = waypointScope(bot);
+  const store = await loadWaypoints();
+  const wp = findWaypoint(store, server, dimension, botKey(bot), name);
+  if (!wp) {
+    const elsewhere = Object.keys(store[server] ?? {}).find(d => d !== dimension && findWaypoint(store, server, d, botKey(bot), name));
+    if (elsewhere) return { ok: false, error: 'wrong_dimension', name, waypointDimension: elsewhere, dimension };
+    return { ok: false, error: 'waypoint_not_found', name, dimension };
+  }
+  const res = await goToKnownLocation({ username: botKey(bot), x: wp.x, y: wp.y, z: wp.z, range: params.range ?? 1, maxMs: params.maxMs });
+  return { ...res, waypoint: { ...wp, dimension } };
+}
+
+async function goToKnownLocation(params: Record<string, unknown>): Promise<any> {
+  const bot = getBotOrThrow(String(params.username || ""));
+  // A trip through the nether takes minutes: it holds the task slot and can be cancelled
+  if (params.viaNether === true) return withTask(bot, (signal) => goViaNether(bot, params, signal));
+  return walkToPosition(bot, params);
+}
+
+async function walkToPosition(bot: Bot, params: Record<string, unknown>, signal?: TaskSignal): Promise<any> {
+  const x = Number(params.x), y = Number(params.y), z = Number(params.z);
+  const range = params.range ? Number(params.range) : 1;
+  const maxMs = Number((params as any).maxMs ?? 60000);
+  const mcDataMod = await import("minecraft-data");
+  const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
+  const movements = configureMovementsDefaults(new Movements(bot));
+  bot.pathfinder.setMovements(movements);
+  bot.pathfinder.setGoal(new goals.GoalNear(x, y, z, range));
+  const target = new Vec3(x, y, z);
+  const start = Date.now();
+  let arrived = false;
+  let lastProgressAt = start;
+  let best = Infinity;
+  while ((Date.now() - start < maxMs || isDefenseActive(bot)) && !signal?.aborted) {
+    const d = bot.entity.position.distanceTo(target);
+    if (d <= Math.max(1, range) + 0.5) { arrived = true; break; }
+    if (d + 0.25 < best) { best = d; lastProgressAt = Date.now(); }
+    if (!isDefenseActive(bot) && Date.now() - lastProgressAt > 15000) {
+      await attemptUnstuck(bot);
+      best = Infinity;
+      lastProgressAt = Date.now();
+    }
+    await bot.waitForTicks(5);
+  }
+  try { bot.pathfinder.stop(); } catch {}
+  const dist = bot.entity.position.distanceTo(target);
+  if (signal?.aborted && !arrived) return { ok: false, arrived, distance: dist, cancelled: true };
+  return { ok: arrived, arrived, distance: dist, timedOut: !arrived };
+}
+
+// ---- World memory ----
+// Valuable blocks seen in loaded chunks, kept on disk per server and dimension so they can be
+// found again after they leave render distance
+const WORLD_MEMORY_BLOCK = /(_ore$|^ancient_debris$|^(trapped_)?chest$|^barrel$|^ender_chest$|^crafting_table$|^(blast_)?furnace$|^smoker$|_bed$|^(mob_)?spawner$|^nether_portal$|^end_portal(_frame)?$)/;
+// Oldest sightings are dropped past this many per block name and dimension
+const MAX_MEMORY_PER_BLOCK = 1000;
+const WORLD_MEMORY_SAVE_DELAY_MS = 5000;
+// Chunks indexed per pass; loading a world fires hundreds of chunk loads at once
+const MEMORY_CHUNKS_PER_PASS = 4;
+
+type MemoryEntry = { name: string; seenAt: number };
+// Chunk ("cx,cz") -> "x,y,z" -> entry, so reindexing a chunk only touches its own bucket
+type MemoryChunks = Record<string, Record<string, MemoryEntry>>;
+// server ("host:port") -> dimension -> chunks; the file keeps each dimension flat, by "x,y,z"
+type WorldMemoryStore = Record<string, Record<string, MemoryChunks>>;
+
+let worldMemoryPath: string | null = null;
+let worldMemory: Promise<WorldMemoryStore> | null = null;
+let worldMemoryWrites: Promise<void> = Promise.resolve();
+let worldMemorySaveTimer: NodeJS.Timeout | null = null;
+
+function configureWorldMemory(file: string | undefined) {
+  worldMemoryPath = file ? String(file) : null;
+  worldMemory = null;
+}
+
+async function worldMemoryFile(): Promise<string> {
+  if (worldMemoryPath) return worldMemoryPath;
+  if (process.env.MCP_WORLD_MEMORY_FILE) return process.env.MCP_WORLD_MEMORY_FILE;
+  const os = await import('node:os');
+  const path = await import('node:path');
+  return path.join(os.homedir(), '.minecraft-mcp', 'world-memory.json');
+}
+
+function loadWorldMemory(): Promise<WorldMemoryStore> {
+  if (!worldMemory) {
+    worldMemory = (async () => {
+      const fs = await import('node:fs/promises');
+      const file = await worldMemoryFile();
+      try {
+        const raw = JSON.parse(await fs.readFile(file, 'utf8'));
+        const store: WorldMemoryStore = {};
+        for (const [server, dims] of Object.entries<any>(raw?.servers ?? {})) {
+          for (const [dimension, entries] of Object.entries<any>(dims ?? {})) {
+            const chunks: MemoryChunks = ((store[server] ??= {})[dimension] = {});
+            for (const [key, e] of Object.entries<MemoryEntry>(entries ?? {})) {
+              const [x, , z] = key.split(',').map(Number);
+              (chunks[memoryChunkKey(x, z)] ??= {})[key] = e;
+            }
+          }
+        }
+        return store;
+      } catch (e: any) {
+        if (e?.code !== 'ENOENT') log(`world memory: could not read ${file}`, e?.message || e);
+        return {};
+      }
+    })();
+  }
+  return worldMemory;
+}
+
+const memoryChunkKey = (x: number, z: number) => chunkKey(Math.floor(x / 16), Math.floor(z / 16));
+
+function pruneWorldMemory(chunks: MemoryChunks) {
+  const byName = new Map<string, Array<[string, string]>>();
+  for (const [chunk, entries] of Object.entries(chunks)) {
+    for (const [key, e] of Object.entries(entries)) {
+      const keys = byName.get(e.name);
+      if (keys) keys.push([chunk, key]); else byName.set(e.name, [[chunk, key]]);
+    }
+  }
+  for (const keys of byName.values()) {
+    if (keys.length <= MAX_MEMORY_PER_BLOCK) continue;
+    keys.sort(([ca, a], [cb, b]) => chunks[cb][b].seenAt - chunks[ca][a].seenAt);
+    for (const [chunk, key] of keys.slice(MAX_MEMORY_PER_BLOCK)) {
+      delete chunks[chunk][key];
+      if (!Object.keys(chunks[chunk]).length) delete chunks[chunk];
+    }
+  }
+}
+
+// Writes now instead of waiting for the batched save; called when a bot disconnects
+function flushWorldMemory(): Promise<void> {
+  if (worldMemorySaveTimer) clearTimeout(worldMemorySaveTimer);
+  worldMemorySaveTimer = null;
+  worldMemoryWrites = worldMemoryWrites.then(async () => {
+    try {
+      const store = await loadWorldMemory();
+      const servers: Record<string, Record<string, Record<string, MemoryEntry>>> = {};
+      for (const [server, dims] of Object.entries(store)) {
+        for (const [dimension, chunks] of Object.entries(dims)) {
+          pruneWorldMemory(chunks);
+          (servers[server] ??= {})[dimension] = Object.assign({}, ...Object.values(chunks));
+        }
+      }
+      const fs = await import('node:fs/promises');
+      const path = await import('node:path');
+      const file = await worldMemoryFile();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ servers }), 'utf8');
+      await fs.rename(`${file}.tmp`, file);
+    } catch (e) {
+      log('world memory write failed', e as any);
+    }
+  });
+  return worldMemoryWrites;
+}
+
+// Sightings arrive in bursts as chunks load, so writes are batched
+function scheduleWorldMemorySave() {
+  if (worldMemorySaveTimer) return;
+  worldMemorySaveTimer = setTimeout(() => { flushWorldMemory(); }, WORLD_MEMORY_SAVE_DELAY_MS);
+  worldMemorySaveTimer.unref?.();
+}
+
+async function memoryScope(bot: Bot): Promise<MemoryChunks> {
+  const { server, dimension } = waypointScope(bot);
+  const store = await loadWorldMemory();
+  return ((store[server] ??= {})[dimension] ??= {});
+}
+
+function memoryBlockIds(bot: Bot): number[] {
+  const registry: any = (bot as any).registry;
+  return (bot as any).__memoryBlockIds ??= (registry?.blocksArray ?? []).filter((b: any) => WORLD_MEMORY_BLOCK.test(b.name)).map((b: any) => b.id);
+}
+
+function memoryCategory(name: string): string {
+  if (/_ore$|^ancient_debris$/.test(name)) return 'ore';
+  if (/chest$|^barrel$/.test(name)) return 'storage';
+  if (/^crafting_table$|furnace$|^smoker$/.test(name)) return 'workstation';
+  if (/_bed$/.test(name)) return 'bed';
+  if (/spawner$/.test(name)) return 'spawner';
+  return 'portal';
+}
+
+// Replaces what was remembered for one chunk column with what is in it now
+async function indexChunk(bot: Bot, cx: number, cz: number) {
+  const x0 = cx * 16, z0 = cz * 16;
+  const game: any = (bot as any).game;
+  const minY = Number(game?.minY ?? 0), height = Number(game?.height ?? 256);
+  // Unloaded again before its turn came; an empty scan must not wipe what was remembered
+  if (!bot.blockAt(new Vec3(x0, minY, z0))) return;
+  const chunks = await memoryScope(bot);
+  const entries: Record<string, MemoryEntry> = {};
+  const ids = memoryBlockIds(bot);
+  const now = Date.now();
+  // One search per 16-block section; the sphere around a section's centre covers the whole section
+  for (let y = minY; y < minY + height; y += 16) {
+    const found = bot.findBlocks({ matching: ids, point: new Vec3(x0 + 8, y + 8, z0 + 8), maxDistance: 14, count: 4096 });
+    for (const p of found) {
+      if (p.x < x0 || p.x >= x0 + 16 || p.z < z0 || p.z >= z0 + 16 || p.y < y || p.y >= y + 16) continue;
+      const block = bot.blockAt(p);
+      if (block) entries[`${p.x},${p.y},${p.z}`] = { name: block.name, seenAt: now };
+    }
+  }
+  if (Object.keys(entries).length) chunks[chunkKey(cx, cz)] = entries;
+  else delete chunks[chunkKey(cx, cz)];
+  scheduleWorldMemorySave();
+}
+
+function trackWorldMemory(bot: Bot) {
+  const pending = new Map<string, { cx: number; cz: number; dimension: string }>();
+  let draining = false;
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+      while (pending.size && !(bot as any).__ended) {
+        for (const [key, { cx, cz, dimension }] of [...pending].slice(0, MEMORY_CHUNKS_PER_PASS)) {
+          pending.delete(key);
+          // Chunks queued before a portal trip belong to the old dimension
+          if (dimension !== currentDimension(bot)) continue;
+          try { await indexChunk(bot, cx, cz); } catch (e) { log('world memory index failed', e as any); }
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    } finally {
+      draining = false;
+    }
+  };
+  bot.on('chunkColumnLoad', (corner: Vec3) => {
+    if (!botConfig(bot).worldMemory) return;
+    const cx = Math.floor(corner.x / 16), cz = Math.floor(corner.z / 16);
+    pending.set(chunkKey(cx, cz), { cx, cz, dimension: currentDimension(bot) });
+    drain();
+  });
+  bot.on('end', () => { if (worldMemorySaveTimer) flushWorldMemory(); });
+  bot.on('blockUpdate', (oldBlock: any, newBlock: any) => {
+    const p = newBlock?.position ?? oldBlock?.position;
+    if (!p || !botConfig(bot).worldMemory) return;
+    const wasTracked = WORLD_MEMORY_BLOCK.test(oldBlock?.name ?? '');
+    const isTracked = WORLD_MEMORY_BLOCK.test(newBlock?.name ?? '');
+    if (!wasTracked && !isTracked) return;
+    memoryScope(bot).then((chunks) => {
+      const chunk = memoryChunkKey(p.x, p.z);
+      const key = `${p.x},${p.y},${p.z}`;
+      if (isTracked) (chunks[chunk] ??= {})[key] = { name: newBlock.name, seenAt: Date.now() };
+      else if (chunks[chunk]) {
+        delete chunks[chunk][key];
+        if (!Object.keys(chunks[chunk]).length) delete chunks[chunk];
+      }
+      scheduleWorldMemorySave();
+    }).catch(e => log('world memory update failed', e));
+  });
+}
+
+async function queryWorldMemory(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const { server, dimension: current } = waypointScope(bot);
+  const dimension = params.dimension ? dimensionArg(params.dimension) : current;
+  const category = params.category ? String(params.category) : undefined;
+  const maxResults = Math.max(1, Number(params.maxResults ?? 10));
+  const maxDistance = params.maxDistance != null ? Number(params.maxDistance) : Infinity;
+  let names: string[] | undefined;
+  if (params.blockName) {
+    const mcDataMod = await import('minecraft-data');
+    const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
+    names = resolveBlockAliases(String(params.blockName), mcData);
+  }
+  const store = await loadWorldMemory();
+  const chunks = store[server]?.[dimension] ?? {};
+  const pos = bot.entity.position;
+  const sameDimension = dimension === current;
+  const counts: Record<string, number> = {};
+  const matches: any[] = [];
+  for (const [key, e] of Object.values(chunks).flatMap(entries => Object.entries(entries))) {
+    const cat = memoryCategory(e.name);
+    if (names && !names.includes(e.name)) continue;
+    if (category && cat !== category) continue;
+    const [x, y, z] = key.split(',').map(Number);
+    const distance = sameDimension ? Math.round(pos.distanceTo(new Vec3(x + 0.5, y + 0.5, z + 0.5)) * 10) / 10 : undefined;
+    if (distance != null && distance > maxDistance) continue;
+    counts[e.name] = (counts[e.name] ?? 0) + 1;
+    matches.push({ name: e.name, category: cat, x, y, z, distance, seenAt: new Date(e.seenAt).toISOString() });
+  }
+  matches.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0) || b.seenAt.localeCompare(a.seenAt));
+  return { ok: true, server, dimension, total: matches.length, counts, results: matches.slice(0, maxResults) };
+}
+
+// ---- Path planning ----
+const WALK_SPEED = 4.317; // blocks/s
+const SPRINT_SPEED = 5.612;
+const PLACE_TIME_MS = 250;
+const MAX_PLAN_WAYPOINTS = 24;
+
+type XYZ = { x: number; y: number; z: number };
+const xyz = (p: XYZ): XYZ => ({ x: p.x, y: p.y, z: p.z });
+
+// Keeps the points where the path turns or changes height; every dropped point lies on a straight line
+function pathTurns(path: XYZ[]): XYZ[] {
+  if (path.length <= 2) return path.map(xyz);
+  const turns: XYZ[] = [path[0]];
+  for (let i = 1; i < path.length - 1; i++) {
+    const a = path[i - 1], b = path[i], c = path[i + 1];
+    const same = b.x - a.x === c.x - b.x && b.y - a.y === c.y - b.y && b.z - a.z === c.z - b.z;
+    if (!same) turns.push(b);
+  }
+  turns.push(path[path.length - 1]);
+  return turns.map(xyz);
+}
+
+// The turns of a path thinned to a fixed budget, for reporting only: the gaps are not walkable lines
+function compactPath(path: XYZ[]): XYZ[] {
+  const turns = pathTurns(path);
+  if (turns.length <= MAX_PLAN_WAYPOINTS) return turns;
+  const step = (turns.length - 1) / (MAX_PLAN_WAYPOINTS - 1);
+  return Array.from({ length: MAX_PLAN_WAYPOINTS }, (_, i) => xyz(turns[Math.round(i * step)]));
+}
+
+function lavaNear(bot: Bot, p: XYZ, radius = 2): XYZ | null {
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dy = -1; dy <= 2; dy++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        const b = bot.blockAt(new Vec3(p.x + dx, p.y + dy, p.z + dz));
+        if (b?.name === 'lava' || b?.name === 'flowing_lava') return xyz(b.position);
+      }
+    }
+  }
+  return null;
+}
+
+async function planPath(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const x = Number(params.x), y = Number(params.y), z = Number(params.z);
+  const range = params.range != null ? Number(params.range) : 1;
+  const timeoutMs = Math.max(100, Math.min(20000, Number(params.timeoutMs ?? 5000)));
+  const movements = configureMovementsDefaults(new Movements(bot));
+  // The search keeps the profile's drop allowance; deeper drops than the caller's threshold are flagged
+  const dropThreshold = params.maxDropDown != null ? Number(params.maxDropDown) : movements.maxDropDown;
+  // Only computes; the bot's current goal and position are untouched. Each step of the generator
+  // is one pathfinder tick (about 40 ms), so keep stepping until A* settles or the budget runs out.
+  const deadline = Date.now() + timeoutMs;
+  const search = bot.pathfinder.getPathFromTo(movements, bot.entity.position, new goals.GoalNear(x, y, z, range), { timeout: timeoutMs });
+  let result = search.next().value.result;
+  while (result.status === 'partial') {
+    if (Date.now() >= deadline) { result = { ...result, status: 'timeout' }; break; }
+    await new Promise(resolve => setImmediate(resolve));
+    const step = search.next();
+    if (step.done) break;
+    result = step.value.result;
+  }
+  const path = result.path ?? [];
+  const from = bot.entity.position.floored();
+
+  let distance = 0;
+  let prev: XYZ = from;
+  let digMs = 0;
+  const toBreak: Array<XYZ & { name?: string }> = [];
+  const toPlace: XYZ[] = [];
+  const hazards: any[] = [];
+  const lavaSeen = new Set<string>();
+  let water: { from: XYZ; to: XYZ; length: number } | null = null;
+  const waterSegments: Array<{ from: XYZ; to: XYZ; length: number }> = [];
+  for (const move of path) {
+    distance += Math.hypot(move.x - prev.x, move.y - prev.y, move.z - prev.z);
+    const drop = prev.y - move.y;
+    if (drop > dropThreshold) hazards.push({ type: 'drop', at: xyz(move), height: drop });
+    for (const b of move.toBreak ?? []) {
+      const block = bot.blockAt(new Vec3(b.x, b.y, b.z));
+      toBreak.push({ ...xyz(b), name: block?.name });
+      try { digMs += block && typeof (bot as any).digTime === 'function' ? (bot as any).digTime(block) : 1000; } catch { digMs += 1000; }
+    }
+    for (const p of move.toPlace ?? []) toPlace.push(xyz(p));
+    const lava = lavaNear(bot, move);
+    if (lava && !lavaSeen.has(`${lava.x},${lava.y},${lava.z}`)) {
+      lavaSeen.add(`${lava.x},${lava.y},${lava.z}`);
+      hazards.push({ type: 'lava', at: xyz(move), lava });
+    }
+    const inWater = bot.blockAt(new Vec3(move.x, move.y, move.z))?.name === 'water';
+    if (inWater) {
+      if (water) { water.to = xyz(move); water.length++; }
+      else { water = { from: xyz(move), to: xyz(move), length: 1 }; waterSegments.push(water); }
+    } else water = null;
+    prev = move;
+  }
+  for (const w of waterSegments) hazards.push({ type: 'water', ...w });
+
+  const speed = movements.allowSprinting ? SPRINT_SPEED : WALK_SPEED;
+  const estimatedMs = Math.round(distance / speed * 1000 + digMs + toPlace.length * PLACE_TIME_MS);
+  return {
+    ok: true,
+    reachable: result.status === 'success',
+    status: result.status,
+    length: path.length,
+    distance: Math.round(distance * 10) / 10,
+    estimatedMs,
+    cost: Math.round(result.cost * 10) / 10,
+    toBreak,
+    toPlace,
+    hazards,
+    waypoints: compactPath([from, ...path]),
+    visitedNodes: result.visitedNodes,
+    computeMs: Math.round(result.time)
+  };
+}
+
+// ---- Dimensions ----
+const NETHER_SCALE = 8;
+// The portal block that leads from one dimension to another
+const PORTAL_ROUTES: Record<string, Record<string, string>> = {
+  overworld: { the_nether: 'nether_portal', the_end: 'end_portal' },
+  the_nether: { overworld: 'nether_portal' },
+  the_end: { overworld: 'end_portal' }
+};
+
+function currentDimension(bot: Bot): string {
+  return normalizeDimension((bot as any).game?.dimension) || 'overworld';
+}
+
+// Tool arguments may use the short names `nether` and `end`
+function dimensionArg(value: unknown): string {
+  const d = normalizeDimension(value).toLowerCase();
+  return d === 'nether' ? 'the_nether' : d === 'end' ? 'the_end' : d;
+}
+
+// Walks into the nearest portal leading to `dimension` and waits until the server moves the bot
+async function enterPortal(bot: Bot, dimension: string, searchRadius: number, maxMs: number, signal?: TaskSignal): Promise<any> {
+  const from = currentDimension(bot);
+  if (from === dimension) return { ok: true, from, dimension, alreadyThere: true, position: xyz(bot.entity.position) };
+  const portalName = PORTAL_ROUTES[from]?.[dimension];
+  if (!portalName) return { ok: false, error: 'no_route', from, dimension };
+  const registry: any = (bot as any).registry;
+  // Pre-1.13 servers call the nether portal block `portal`
+  const ids: number[] = [portalName, portalName === 'nether_portal' ? 'portal' : '']
+    .map(n => registry?.blocksByName[n]?.id).filter((id: number | undefined): id is number => id != null);
+  const found = bot.findBlock({ matching: ids, maxDistance: searchRadius });
+  if (!found) return { ok: false, error: 'portal_not_found', from, dimension, portal: portalName, searchRadius };
+  // Stand in the lowest portal block of the column so the feet are inside the frame
+  let feet = found.position;
+  while (ids.includes(bot.blockAt(feet.offset(0, -1, 0))?.type as number)) feet = feet.offset(0, -1, 0);
+  recordAutoWaypoint(bot, 'portal', feet);
+  bot.pathfinder.setMovements(configureMovementsDefaults(new Movements(bot)));
+  bot.pathfinder.setGoal(new goals.GoalBlock(feet.x, feet.y, feet.z));
+  const start = Date.now();
+  const result = (extra: Record<string, unknown>) => ({ from, portal: xyz(feet), position: xyz(bot.entity.position), elapsedMs: Date.now() - start, ...extra });
+  while (currentDimension(bot) === from) {
+    if (signal?.aborted || Date.now() - start > maxMs) {
+      try { bot.pathfinder.stop(); } catch {}
+      return signal?.aborted
+        ? result({ ok: false, error: 'cancelled', dimension: from, cancelled: true })
+        : result({ ok: false, error: 'timeout', dimension: from, timedOut: true });
+    }
+    await bot.waitForTicks(5);
+  }
+  try { bot.pathfinder.stop(); } catch {}
+  // Chunks around the arrival point load after the respawn packet
+  await bot.waitForTicks(20);
+  const arrived = currentDimension(bot);
+  recordAutoWaypoint(bot, 'portal', bot.entity.position);
+  return result(arrived === dimension ? { ok: true, dimension: arrived } : { ok: false, error: 'wrong_dimension', dimension: arrived });
+}
+
+async function travelToDimension(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  return withTask(bot, async (signal) => {
+  const dimension = dimensionArg(params.dimension);
+  const searchRadius = Number(params.searchRadius ?? 64);
+  const maxMs = Number(params.maxMs ?? 60000);
+  return enterPortal(bot, dimension, searchRadius, maxMs, signal);
+  });
+}
+
+// Overworld x,z reached through the nether: in through a nearby portal, walk to x/8,z/8,
+// out through the portal there, then the last stretch in the overworld
+async function goViaNether(bot: Bot, params: Record<string, unknown>, signal: TaskSignal): Promise<any> {
+  const x = Number(params.x), z = Number(params.z);
+  const maxMs = Number(params.maxMs ?? 60000);
+  // maxMs covers the whole trip; each leg gets what the earlier ones left
+  const deadline = Date.now() + maxMs;
+  const remainingMs = () => Math.max(0, deadline - Date.now());
+  const searchRadius = Number(params.portalSearchRadius ?? 64);
+  const legs: any[] = [];
+  const failed = (error: string, extra: Record<string, unknown> = {}) => ({ ok: false, arrived: false, error, legs, position: xyz(bot.entity.position), dimension: currentDimension(bot), ...(signal.aborted ? { cancelled: true } : {}), ...extra });
+  const start = currentDimension(bot);
+  if (start !== 'overworld' && start !== 'the_nether') return failed('wrong_dimension');
+  if (start === 'overworld') {
+    const enter = await enterPortal(bot, 'the_nether', searchRadius, remainingMs(), signal);
+    legs.push({ leg: 'enter_nether', ok: enter.ok, portal: enter.portal, elapsedMs: enter.elapsedMs });
+    if (!enter.ok) return failed(enter.error);
+  }
+  const nx = Math.floor(x / NETHER_SCALE) + 0.5, nz = Math.floor(z / NETHER_SCALE) + 0.5;
+  const netherTarget = { x: nx, z: nz };
+  bot.pathfinder.setMovements(configureMovementsDefaults(new Movements(bot)));
+  bot.pathfinder.setGoal(new goals.GoalNearXZ(nx, nz, 4));
+  const walkStart = Date.now();
+  let best = Infinity;
+  let lastProgressAt = walkStart;
+  let reached = false;
+  while (Date.now() < deadline && !signal.aborted) {
+    const d = Math.hypot(bot.entity.position.x - nx, bot.entity.position.z - nz);
+    if (d <= 6) { reached = true; break; }
+    if (d + 0.25 < best) { best = d; lastProgressAt = Date.now(); }
+    if (!isDefenseActive(bot) && Date.now() - lastProgressAt > 15000) {
+      await attemptUnstuck(bot);
+      best = Infinity;
+      lastProgressAt = Date.now();
+    }
+    await bot.waitForTicks(5);
+  }
+  try { bot.pathfinder.stop(); } catch {}
+  legs.push({ leg: 'nether', ok: reached, target: netherTarget, elapsedMs: Date.now() - walkStart });
+  if (!reached && signal.aborted) return failed('cancelled', { netherTarget });
+  if (!reached) return failed('timeout', { netherTarget, timedOut: true });
+  const exit = await enterPortal(bot, 'overworld', searchRadius, remainingMs(), signal);
+  legs.push({ leg: 'exit_nether', ok: exit.ok, portal: exit.portal, elapsedMs: exit.elapsedMs });
+  // There is no portal to build from here; the caller has to place one at the nether target
+  if (!exit.ok) return failed(exit.error, { netherTarget });
+  const last = await walkToPosition(bot, { ...params, maxMs: remainingMs() }, signal);
+  legs.push({ leg: 'overworld', ok: last.arrived });
+  return { ...last, legs, dimension: currentDimension(bot) };
+}
+
+// ---- Vehicles ----
+// Boats and ridden animals are moved by their rider's client, so the bot drives them with
+// vehicle_move packets along a route it plans itself. Minecarts are moved by the server:
+// the bot only pushes forward and watches where the cart goes.
+type VehicleKind = 'boat' | 'animal' | 'minecart';
+const RIDEABLE_ANIMALS = ['horse', 'donkey', 'mule', 'camel', 'llama', 'trader_llama', 'skeleton_horse', 'zombie_horse', 'pig', 'strider'];
+// Blocks per tick
+const VEHICLE_SPEEDS: Record<string, number> = { boat: 0.4, animal: 0.35, pig: 0.12, strider: 0.12 };
+const MAX_ROUTE_NODES = 20000;
+// The server answers a mount or dismount within a few ticks; silence means it refused
+const MOUNT_TIMEOUT_MS = 2000;
+// A cart that has not moved for this long has reached the end of the line (or a dead stop)
+const MINECART_IDLE_TICKS = 40;
+
+function vehicleKind(name: string | undefined): VehicleKind | null {
+  const n = String(name || '').toLowerCase();
+  if (/(^|_)(boat|raft)$/.test(n)) return 'boat';
+  if (n === 'minecart') return 'minecart';
+  if (RIDEABLE_ANIMALS.includes(n)) return 'animal';
+  return null;
+}
+
+function vehicleInfo(bot: Bot): { id: number; name: string; kind: VehicleKind | null; position: XYZ } | null {
+  const v: any = (bot as any).vehicle;
+  if (!v) return null;
+  return { id: v.id, name: v.name, kind: vehicleKind(v.name), position: xyz(v.position) };
+}
+
+const isWaterBlock = (b: any) => b?.name === 'water';
+
+// Breadth-first over grid cells; returns the path to the reached cell closest to the target
+function gridRoute(start: XYZ, target: { x: number; z: number }, neighbours: (p: XYZ) => XYZ[]): XYZ[] {
+  const key = (p: XYZ) => `${p.x},${p.y},${p.z}`;
+  const cameFrom = new Map<string, XYZ | null>([[key(start), null]]);
+  // Read through a head index: shift() would make a search of MAX_ROUTE_NODES quadratic
+  const queue: XYZ[] = [start];
+  let head = 0;
+  const dist = (p: XYZ) => Math.hypot(p.x + 0.5 - target.x, p.z + 0.5 - target.z);
+  let best = start;
+  while (head < queue.length && cameFrom.size < MAX_ROUTE_NODES) {
+    const p = queue[head++];
+    if (dist(p) < dist(best)) best = p;
+    if (dist(p) < 1) break;
+    for (const n of neighbours(p)) {
+      if (cameFrom.has(key(n))) continue;
+      cameFrom.set(key(n), p);
+      queue.push(n);
+    }
+  }
+  const path: XYZ[] = [];
+  for (let p: XYZ | null | undefined = best; p; p = cameFrom.get(key(p))) path.unshift(p);
+  return path;
+}
+
+// Boats stay on the water surface of the body they float on
+function waterRoute(bot: Bot, from: Vec3, target: { x: number; z: number }): XYZ[] {
+  let wy = Math.floor(from.y);
+  if (!isWaterBlock(bot.blockAt(new Vec3(Math.floor(from.x), wy, Math.floor(from.z))))) wy -= 1;
+  const open = (x: number, z: number) => isWaterBlock(bot.blockAt(new Vec3(x, wy, z))) && isEmptyBlock(bot.blockAt(new Vec3(x, wy + 1, z)));
+  return gridRoute({ x: Math.floor(from.x), y: wy, z: Math.floor(from.z) }, target, (p) =>
+    HORIZONTAL_DIRS.filter(([dx, dz]) => open(p.x + dx, p.z + dz)).map(([dx, dz]) => ({ x: p.x + dx, y: wy, z: p.z + dz })));
+}
+
+// Ridden animals step up one block and drop up to three, like a player
+function landRoute(bot: Bot, from: Vec3, target: { x: number; z: number }): XYZ[] {
+  const at = (x: number, y: number, z: number) => bot.blockAt(new Vec3(x, y, z));
+  const standable = (x: number, y: number, z: number) => at(x, y - 1, z)?.boundingBox === 'block' && isEmptyBlock(at(x, y, z)) && isEmptyBlock(at(x, y + 1, z));
+  // A drop needs the whole column clear from the current head height down to where it lands
+  const clearDrop = (x: number, y: number, z: number, dy: number) => {
+    for (let k = dy; k <= 1; k++) if (!isEmptyBlock(at(x, y + k, z))) return false;
+    return true;
+  };
+  return gridRoute(xyz(from.floored()), target, (p) => {
+    const out: XYZ[] = [];
+    for (const [dx, dz] of HORIZONTAL_DIRS) {
+      const dy = [0, 1, -1, -2, -3].find(dy => standable(p.x + dx, p.y + dy, p.z + dz)
+        && (dy <= 0 || isEmptyBlock(at(p.x, p.y + 2, p.z)))
+        && (dy >= 0 || clearDrop(p.x + dx, p.y, p.z + dz, dy)));
+      if (dy != null) out.push({ x: p.x + dx, y: p.y + dy, z: p.z + dz });
+    }
+    return out;
+  });
+}
+
+function sendVehicleMove(bot: Bot, vehicle: any, pos: XYZ, yaw: number) {
+  (bot as any)._client.write('vehicle_move', { x: pos.x, y: pos.y, z: pos.z, yaw, pitch: 0 });
+  vehicle.position = new Vec3(pos.x, pos.y, pos.z);
+}
+
+async function mountNearest(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  if ((bot as any).vehicle) return { ok: false, error: 'already_mounted', vehicle: vehicleInfo(bot) };
+  const kind = params.kind ? String(params.kind) : undefined;
+  const entityName = params.entityName ? String(params.entityName) : undefined;
+  const maxDistance = Number(params.maxDistance ?? 16);
+  const me = bot.entity.position;
+  const target: any = (Object.values(bot.entities) as any[])
+    .filter(e => e?.position && e !== bot.entity && vehicleKind(e.name) && !e.passengers?.length)
+    .filter(e => (!kind || vehicleKind(e.name) === kind) && (!entityName || e.name === entityName))
+    .filter(e => e.position.distanceTo(me) <= maxDistance)
+    .sort((a, b) => a.position.distanceTo(me) - b.position.distanceTo(me))[0];
+  if (!target) return { ok: false, error: 'no_vehicle_found', kind: kind ?? null, entityName: entityName ?? null, maxDistance };
+  if (target.position.distanceTo(me) > 3) {
+    bot.pathfinder.setMovements(configureMovementsDefaults(new Movements(bot)));
+    await bot.pathfinder.goto(new goals.GoalNear(target.position.x, target.position.y, target.position.z, 2));
+  }
+  bot.mount(target);
+  const mounted = await waitUntil<boolean>(MOUNT_TIMEOUT_MS, (done) => {
+    if ((bot as any).vehicle) { done(true); return () => {}; }
+    const onMount = () => done(true);
+    bot.once('mount', onMount);
+    return () => bot.removeListener('mount', onMount);
+  });
+  // Horses must be tamed and saddled, pigs and striders saddled
+  if (mounted.value !== true) return { ok: false, error: 'mount_failed', target: { id: target.id, name: target.name, position: xyz(target.position) } };
+  return { ok: true, vehicle: vehicleInfo(bot) };
+}
+
+async function dismount(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const vehicle = vehicleInfo(bot);
+  if (!vehicle) return { ok: false, error: 'not_mounted' };
+  bot.dismount();
+  const left = await waitUntil<boolean>(MOUNT_TIMEOUT_MS, (done) => {
+    if (!(bot as any).vehicle) { done(true); return () => {}; }
+    const onDismount = () => done(true);
+    bot.once('dismount', onDismount);
+    return () => bot.removeListener('dismount', onDismount);
+  });
+  if (left.value !== true) return { ok: false, error: 'dismount_failed', vehicle };
+  return { ok: true, vehicle, position: xyz(bot.entity.position) };
+}
+
+async function rideVehicleTo(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  return withTask(bot, async (signal) => {
+  const vehicle: any = (bot as any).vehicle;
+  if (!vehicle) return { ok: false, error: 'not_mounted' };
+  const kind = vehicleKind(vehicle.name);
+  if (!kind) return { ok: false, error: 'unsupported_vehicle', name: vehicle.name };
+  const hasTarget = params.x != null && params.z != null;
+  if (!hasTarget && kind !== 'minecart') return { ok: false, error: 'missing_target', message: 'x and z are required for boats and animals' };
+  const tx = Number(params.x), tz = Number(params.z);
+  const range = Number(params.range ?? 3);
+  const maxMs = Number(params.maxMs ?? 120000);
+  const startedAt = Date.now();
+  const startPos = vehicle.position.clone();
+  const near = () => hasTarget && Math.hypot(vehicle.position.x - tx, vehicle.position.z - tz) <= range;
+  const finish = (stopReason: string, extra: Record<string, unknown> = {}) => ({
+    ok: stopReason === 'arrived' || stopReason === 'end_of_line',
+    arrived: near(),
+    stopReason,
+    kind,
+    travelled: Math.round(vehicle.position.distanceTo(startPos) * 10) / 10,
+    elapsedMs: Date.now() - startedAt,
+    position: xyz(vehicle.position),
+    cancelled: signal.aborted,
+    ...extra
+  });
+
+  if (kind === 'minecart') {
+    // Face along the rails so the push goes the right way
+    const cart = vehicle.position.floored();
+    const rail = HORIZONTAL_DIRS.map(([dx, dz]) => cart.offset(dx, 0, dz))
+      .filter(p => /rail$/.test(bot.blockAt(p)?.name ?? ''))
+      .sort((a, b) => hasTarget ? Math.hypot(a.x - tx, a.z - tz) - Math.hypot(b.x - tx, b.z - tz) : 0)[0];
+    if (rail) await bot.lookAt(rail.offset(0.5, 0.5, 0.5));
+    let last = vehicle.position.clone();
+    let idleTicks = 0;
+    let moved = false;
+    while (true) {
+      if (signal.aborted) return finish('cancelled');
+      if (near()) return finish('arrived');
+      if (Date.now() - startedAt > maxMs) return finish('time_budget');
+      bot.moveVehicle(0, 1);
+      await bot.waitForTicks(2);
+      if (vehicle.position.distanceTo(last) > 0.05) { moved = true; idleTicks = 0; last = vehicle.position.clone(); }
+      else if ((idleTicks += 2) >= MINECART_IDLE_TICKS) return finish(moved ? 'end_of_line' : 'stuck');
+    }
+  }
+
+  const route = kind === 'boat' ? waterRoute(bot, vehicle.position, { x: tx, z: tz }) : landRoute(bot, vehicle.position, { x: tx, z: tz });
+  if (route.length < 2) return finish('no_route');
+  const speed = VEHICLE_SPEEDS[vehicle.name] ?? VEHICLE_SPEEDS[kind];
+  const waypoints = pathTurns(route).map(p => ({ x: p.x + 0.5, y: kind === 'boat' ? vehicle.position.y : p.y, z: p.z + 0.5 }));
+  for (const wp of waypoints.slice(1)) {
+    while (true) {
+      if (signal.aborted) return finish('cancelled');
+      if (Date.now() - startedAt > maxMs) return finish('time_budget');
+      if (!(bot as any).vehicle) return finish('dismounted');
+      const p = vehicle.position;
+      const dx = wp.x - p.x, dy = wp.y - p.y, dz = wp.z - p.z;
+      const d = Math.hypot(dx, dy, dz);
+      const yaw = Math.atan2(-dx, dz) * 180 / Math.PI;
+      if (d <= speed) { sendVehicleMove(bot, vehicle, wp, yaw); break; }
+      sendVehicleMove(bot, vehicle, { x: p.x + dx / d * speed, y: p.y + dy / d * speed, z: p.z + dz / d * speed }, yaw);
+      await bot.waitForTicks(1);
+    }
+    const done = waypoints.indexOf(wp);
+    signal.progress({ completed: done, remaining: waypoints.length - 1 - done, failed: 0, total: waypoints.length - 1 });
+  }
+  // The route ends at the closest reachable cell, which may be short of the target (a shore, a wall)
+  return finish(near() ? 'arrived' : 'route_end', { waypoints: waypoints.length });
+  });
+}
+
+async function goToSomeone(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const targetName = String(params.userName || params.username || "");
+  const player = bot.players[targetName]?.entity;
+  if (!player) throw new Error(`Player '${targetName}' not found`);
+  const mcDataMod = await import("minecraft-data");
+  const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
+  const movements = configureMovementsDefaults(new Movements(bot));
+  bot.pathfinder.setMovements(movements);
+  bot.pathfinder.setGoal(new goals.GoalFollow(player, Number(params.distance ?? 3)));
+  return { ok: true };
+}
+
+async function sendChat(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const message = String(params.message || "");
+  bot.chat(message);
   return { ok: true };
 }
 
@@ -885,9 +2778,11 @@ async function stopAllTasks(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
   try { (bot as any).pvp?.stop?.(); } catch {}
   try { bot.pathfinder?.stop?.(); } catch {}
+  // Queued tasks go first so the running task's handover doesn't start the next one
+  const clearedQueued = failQueuedTasks(getTask(bot), 'stopped');
   try { const t = (bot as any).__task; if (t?.abort) t.abort(); } catch {}
   // No direct API to stop statemachine; users should avoid starting it unless needed
-  return { ok: true };
+  return { ok: true, clearedQueued };
 }
 
 // selfDefense tool removed; self-defense is always enabled by default and reported via status.lastDefense one-shot
@@ -960,6 +2855,7 @@ async function swimToLand(params: Record<string, unknown>) {
 
 async function hunt(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
+  return withTask(bot, async (signal) => {
   const targetKey = String(params.targetName || params.targetType || 'cow');
   const countTarget = Math.max(1, Number((params as any).count ?? 1));
   const maxMs = Number((params as any).maxMs ?? 120000);
@@ -970,11 +2866,12 @@ async function hunt(params: Record<string, unknown>) {
 
   const matches = (e: any) => (e && (e.name === targetKey || e.displayName === targetKey || e.kind === targetKey));
 
-  while (kills < countTarget && Date.now() - start < maxMs) {
+  while (kills < countTarget && Date.now() - start < maxMs && !signal.aborted) {
     // Acquire target
     let ent: any = bot.nearestEntity(matches);
     const acquireStart = Date.now();
-    while (!ent && Date.now() - acquireStart < 10000) { await bot.waitForTicks(5); ent = bot.nearestEntity(matches); }
+    while (!ent && Date.now() - acquireStart < 10000 && !signal.aborted) { await bot.waitForTicks(5); ent = bot.nearestEntity(matches); }
+    if (signal.aborted) break;
     if (!ent) { errors.push('no_target_found'); break; }
 
     try {
@@ -993,7 +2890,7 @@ async function hunt(params: Record<string, unknown>) {
       // @ts-ignore
       bot.pvp.attack(ent);
       const fightStart = Date.now();
-      while (Date.now() - fightStart < 30000) {
+      while (Date.now() - fightStart < 30000 && !signal.aborted) {
         await bot.waitForTicks(5);
         if (dead) break;
         const still = Object.values(bot.entities).find((e: any) => e.id === targetId);
@@ -1012,8 +2909,9 @@ async function hunt(params: Record<string, unknown>) {
     if (dead) {
       kills++;
       lastProgressAt = Date.now();
+      signal.progress({ completed: kills, remaining: Math.max(0, countTarget - kills), failed: errors.length, total: countTarget });
       continue;
-    } else {
+    } else if (!signal.aborted) {
       errors.push('target_escaped_or_timeout');
     }
 
@@ -1022,19 +2920,20 @@ async function hunt(params: Record<string, unknown>) {
 
   const timedOut = kills < countTarget && Date.now() - start >= maxMs;
   const stalled = kills < countTarget && Date.now() - lastProgressAt > stallMs;
-  return { ok: kills > 0, requested: countTarget, kills, remaining: Math.max(0, countTarget - kills), timedOut, stalled, errors };
+  return { ok: kills > 0, requested: countTarget, kills, remaining: Math.max(0, countTarget - kills), timedOut, stalled, errors, cancelled: signal.aborted };
+  });
 }
 
 async function mineResource(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  return withTask(bot, async (_signal) => {
-  const blockName = String(params.blockName || params.resource || 'stone');
+  return withTask(bot, async (signal) => {
+  const blockName = String(params.blockName || 'stone');
   const count = Number(params.count ?? 1);
   const maxMs = Number((params as any).maxMs ?? 120000);
   const mcDataMod = await import('minecraft-data');
   const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
   const candidates = resolveBlockAliases(blockName, mcData);
-  const positions = bot.findBlocks({ matching: (b: any) => b && candidates.includes(b.name), maxDistance: 64, count });
+  const positions = bot.findBlocks({ matching: (b: any) => b && candidates.includes(b.name) && !(b.position && isProtectedPosition(bot, b.position)), maxDistance: botConfig(bot).mineSearchRadius, count });
   if (!positions.length) throw new Error(`No ${blockName} nearby`);
   const blocks = positions.map((v: any) => bot.blockAt(v)).filter(Boolean) as any[];
   // Pre-check required tool category
@@ -1046,8 +2945,11 @@ async function mineResource(params: Record<string, unknown>) {
   let completed = 0; const failed: Array<{x:number,y:number,z:number, error?: string}> = [];
   const start = Date.now();
   let lastProgressAt = start;
+  const report = () => signal.progress({ completed, remaining: Math.max(0, count - completed), failed: failed.length, total: count });
   for (const b of blocks) {
-    if (Date.now() - start > maxMs) break;
+    if (Date.now() - start > maxMs || signal.aborted) break;
+    const budget = checkBlockBreakBudget(bot);
+    if (budget) return { ...budget, ok: completed > 0, requested: count, completed, remaining: Math.max(0, count - completed), failed };
     try {
       // Navigate near the block first to reduce path issues
       const p: any = (b as any).position || b;
@@ -1064,10 +2966,12 @@ async function mineResource(params: Record<string, unknown>) {
       bot.pathfinder.setGoal(new goals.GoalNear(p.x, p.y, p.z, 1));
       const navStart = Date.now();
       while (Date.now() - navStart < 20000) { const d = bot.entity.position.distanceTo(new Vec3(p.x, p.y, p.z)); if (d <= 2.5) break; await bot.waitForTicks(5); }
+      trackBlockBreaks(bot);
       // @ts-ignore perform collect with timeout
       try { pushSuspendAutoEat(bot); await collectBlockWithTimeout(bot, b, 30000); } finally { popSuspendAutoEat(bot); }
       completed++;
       lastProgressAt = Date.now();
+      report();
 
       // If this block is an ore or a log, mine the connected cluster (bounded)
       const minedName = (b as any).name || '';
@@ -1080,7 +2984,7 @@ async function mineResource(params: Record<string, unknown>) {
         const dirs = [
           new Vec3(1,0,0),new Vec3(-1,0,0),new Vec3(0,1,0),new Vec3(0,-1,0),new Vec3(0,0,1),new Vec3(0,0,-1)
         ];
-        while (queue.length && visited.size < maxExtra && Date.now() - start < maxMs) {
+        while (queue.length && visited.size < maxExtra && Date.now() - start < maxMs && !signal.aborted) {
           const cur = queue.shift()!;
           for (const d of dirs) {
             const np = new Vec3(cur.x + d.x, cur.y + d.y, cur.z + d.z);
@@ -1089,6 +2993,7 @@ async function mineResource(params: Record<string, unknown>) {
             const nb = bot.blockAt(np);
             if (!nb) continue;
             if (String(nb.name || '').toLowerCase() !== minedName.toLowerCase()) continue;
+            if (isProtectedPosition(bot, np)) continue;
             visited.add(k);
             // Mine neighbor
             try {
@@ -1098,6 +3003,8 @@ async function mineResource(params: Record<string, unknown>) {
                 failed.push({ x: np.x, y: np.y, z: np.z, error: err }); 
                 return { ok: completed > 0, requested: count, completed, remaining: Math.max(0, count - completed), failed, error: err, reason: 'missing_tool', needed: need };
               }
+              const budget2 = checkBlockBreakBudget(bot);
+              if (budget2) return { ...budget2, ok: completed > 0, requested: count, completed, remaining: Math.max(0, count - completed), failed };
               await equipBestToolForBlock(bot, nb);
               const movements2 = configureMovementsDefaults(new Movements(bot));
               bot.pathfinder.setMovements(movements2);
@@ -1107,9 +3014,11 @@ async function mineResource(params: Record<string, unknown>) {
               try { pushSuspendAutoEat(bot); await collectBlockWithTimeout(bot, nb, 30000); } finally { popSuspendAutoEat(bot); }
               completed++;
               lastProgressAt = Date.now();
+              report();
               queue.push(np);
             } catch (e: any) {
               failed.push({ x: np.x, y: np.y, z: np.z, error: String(e?.message || e) });
+              report();
             }
           }
           if (Date.now() - lastProgressAt > 20000) break;
@@ -1118,18 +3027,19 @@ async function mineResource(params: Record<string, unknown>) {
     } catch (e: any) {
       const q: any = (b as any).position || b;
       failed.push({ x: q.x, y: q.y, z: q.z, error: String(e?.message || e) });
+      report();
     }
     if (Date.now() - lastProgressAt > 20000) break; // stall protection
   }
   const timedOut = Date.now() - start > maxMs;
   const stalled = Date.now() - lastProgressAt > 20000 && !timedOut && completed < count;
-  return { ok: completed > 0, requested: count, completed, remaining: Math.max(0, count - completed), failed, timedOut, stalled };
+  return { ok: completed > 0, requested: count, completed, remaining: Math.max(0, count - completed), failed, timedOut, stalled, cancelled: signal.aborted };
   });
 }
 
 async function harvestMatureCrops(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  return withTask(bot, async (_signal) => {
+  return withTask(bot, async (signal) => {
   const crops = ['wheat', 'carrots', 'potatoes', 'beetroots'];
   const want = Math.max(1, Number((params as any).count ?? 8));
   // Dynamic scan for candidate crop blocks around bot within radius
@@ -1142,7 +3052,7 @@ async function harvestMatureCrops(params: Record<string, unknown>) {
         const p = new Vec3(origin.x + dx, origin.y + dy, origin.z + dz);
         const b = bot.blockAt(p);
         if (!b) continue;
-        if (!crops.includes(b.name)) continue;
+        if (!crops.includes(b.name) || isProtectedPosition(bot, p)) continue;
         const age = (b as any).getProperties?.().age ?? (b as any).metadata ?? 0;
         if (age >= 7) blocks.push(b);
       }
@@ -1153,7 +3063,7 @@ async function harvestMatureCrops(params: Record<string, unknown>) {
   const stallMs = Number((params as any).stallMs ?? 20000);
   let lastProgressAt = Date.now();
   for (const b of blocks) {
-    if (Date.now() - lastProgressAt > stallMs) break;
+    if (Date.now() - lastProgressAt > stallMs || signal.aborted) break;
     try {
       const p: any = (b as any).position || b;
       const movements = configureMovementsDefaults(new Movements(bot));
@@ -1162,10 +3072,12 @@ async function harvestMatureCrops(params: Record<string, unknown>) {
       const navStart = Date.now();
       while (Date.now() - navStart < 20000) { const d = bot.entity.position.distanceTo(new Vec3(p.x, p.y, p.z)); if (d <= 2.5) break; await bot.waitForTicks(5); }
       // Prefer direct dig for reliability on crop blocks
-      try { pushSuspendAutoEat(bot); await bot.dig(b as any); } finally { popSuspendAutoEat(bot); }
+      const denial = await breakBlock(bot, b);
+      if (denial) return { ...denial, ok: harvested > 0, requested: want, harvested, remaining: Math.max(0, want - harvested), failed };
       await bot.waitForTicks(2);
       harvested++;
       lastProgressAt = Date.now();
+      signal.progress({ completed: harvested, remaining: Math.max(0, want - harvested), failed: failed.length, total: want });
       // Replant appropriate seed if available and farmland present
       try {
         const seedMap: Record<string, string> = { wheat: 'wheat_seeds', carrots: 'carrot', potatoes: 'potato', beetroots: 'beetroot_seeds' };
@@ -1193,7 +3105,7 @@ async function harvestMatureCrops(params: Record<string, unknown>) {
     if (Date.now() - lastProgressAt > stallMs) break; // stall protection based on progress
   }
   const stalled = Date.now() - lastProgressAt > stallMs && harvested < want;
-  return { ok: harvested > 0, requested: want, harvested, remaining: Math.max(0, want - harvested), failed, stalled, timedOut: stalled };
+  return { ok: harvested > 0, requested: want, harvested, remaining: Math.max(0, want - harvested), failed, stalled, timedOut: stalled, cancelled: signal.aborted };
   });
 }
 
@@ -1241,6 +3153,7 @@ async function openNearbyChest(params: Record<string, unknown>) {
   const pos = await pathfindToPredicate(bot, (b: any) => b?.name?.includes('chest'), 24, 2);
   let chest: any;
   try { pushSuspendAutoEat(bot); chest = await bot.openChest(pos as any); } finally { popSuspendAutoEat(bot); }
+  recordAutoWaypoint(bot, 'chest', (pos as any).position);
   await bot.waitForTicks(10);
   const items = chest.containerItems().map((i: any) => ({ name: i.name, count: i.count }));
   chest.close();
@@ -1249,8 +3162,8 @@ async function openNearbyChest(params: Record<string, unknown>) {
 
 async function craftItems(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  return withTask(bot, async (_signal) => {
-  const itemName = String(params.itemName || params.name || 'stick');
+  return withTask(bot, async (signal) => {
+  const itemName = String(params.itemName || 'stick');
   const count = Number(params.count ?? 1);
   const mcDataMod = await import('minecraft-data');
   const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
@@ -1273,6 +3186,9 @@ async function craftItems(params: Record<string, unknown>) {
       await bot.waitForTicks(2);
       const pos = bot.entity.position.floored().offset(0, 0, 1);
       tableBlock = bot.blockAt(pos as any);
+      // The table does not always land on the guessed block; look for it nearby
+      if (tableBlock?.name !== 'crafting_table') tableBlock = bot.findBlock({ matching: (b: any) => b?.name === 'crafting_table', maxDistance: 4 }) || tableBlock;
+      if (tableBlock?.name === 'crafting_table') recordAutoWaypoint(bot, 'crafting_table', tableBlock.position);
     }
   }
 
@@ -1375,13 +3291,12 @@ async function craftItems(params: Record<string, unknown>) {
   }
 
   async function craftWithTimeout(amount: number, timeoutMs = 15000) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    let timeout: NodeJS.Timeout | undefined;
     try {
       // mineflayer doesn't support AbortSignal; use race
       await Promise.race([
         (async () => { pushSuspendAutoEat(bot); try { await bot.craft(recipe, amount, tableBlock || null); } finally { popSuspendAutoEat(bot); } })(),
-        new Promise((_, rej) => setTimeout(() => rej(new Error('craft_timeout')), timeoutMs))
+        new Promise((_, rej) => { timeout = setTimeout(() => rej(new Error('craft_timeout')), timeoutMs); })
       ]);
     } finally {
       clearTimeout(timeout);
@@ -1398,7 +3313,7 @@ async function craftItems(params: Record<string, unknown>) {
 
   let lastProgressAt = Date.now();
   const idleMs = 12000;
-  while (crafted < count && Date.now() < deadline) {
+  while (crafted < count && Date.now() < deadline && !signal.aborted) {
     try {
       await craftWithTimeout(1, 8000);
       await bot.waitForTicks(2);
@@ -1411,6 +3326,7 @@ async function craftItems(params: Record<string, unknown>) {
       }
       crafted += delta;
       lastProgressAt = Date.now();
+      signal.progress({ completed: crafted, remaining: Math.max(0, count - crafted), failed: errors.length, total: count });
     } catch (e: any) {
       const msg = String(e?.message || e);
       errors.push(msg);
@@ -1426,14 +3342,14 @@ async function craftItems(params: Record<string, unknown>) {
   const timedOut = Date.now() >= deadline && crafted < count;
   // Always compute missing for visibility if we didn't craft everything
   const missingItems = crafted < count ? computeMissingFor(Math.max(1, count - crafted)) : [];
-  return { ok: crafted > 0, requested: count, crafted, remaining: Math.max(0, count - crafted), usedTable: !!tableBlock, timedOut, reason, missingItems, errors };
+  return { ok: crafted > 0, requested: count, crafted, remaining: Math.max(0, count - crafted), usedTable: !!tableBlock, timedOut, reason, missingItems, errors, cancelled: signal.aborted };
   });
 }
 
 // List recipes for a specific item and whether they are currently craftable
 async function listRecipes(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  const itemName = String(params.itemName || params.name || '');
+  const itemName = String(params.itemName || '');
   if (!itemName) throw new Error('itemName required');
   const mcDataMod = await import('minecraft-data');
   const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
@@ -1565,7 +3481,7 @@ async function openFurnaceLike(bot: Bot, device: 'furnace'|'smoker'|'blast_furna
   return f;
 }
 
-async function cookOrSmeltOnDevice(bot: Bot, device: 'furnace'|'smoker'|'blast_furnace', itemName: string, fuelName?: string, count: number = 1, totalMaxMs?: number) {
+async function cookOrSmeltOnDevice(bot: Bot, device: 'furnace'|'smoker'|'blast_furnace', itemName: string, fuelName?: string, count: number = 1, totalMaxMs?: number, signal?: TaskSignal) {
   const furnace: any = await openFurnaceLike(bot, device);
   try {
     try { await furnace.takeOutput(); } catch {}
@@ -1608,7 +3524,7 @@ async function cookOrSmeltOnDevice(bot: Bot, device: 'furnace'|'smoker'|'blast_f
     let lastOutName: string | undefined;
     let outOfFuel = false;
     let refuelAttempts = 0;
-    while (outputs < outputsTarget && Date.now() < deadline) {
+    while (outputs < outputsTarget && Date.now() < deadline && !signal?.aborted) {
       await bot.waitForTicks(10);
       try {
         const out = await furnace.takeOutput();
@@ -1616,6 +3532,7 @@ async function cookOrSmeltOnDevice(bot: Bot, device: 'furnace'|'smoker'|'blast_f
           outputs += out.count ?? 1;
           lastOutName = out.name;
           lastProgressAt = Date.now();
+          signal?.progress({ completed: outputs, remaining: Math.max(0, outputsTarget - outputs), failed: 0, total: outputsTarget });
         }
       } catch {}
       // Attempt refuel on stall
@@ -1638,10 +3555,11 @@ async function cookOrSmeltOnDevice(bot: Bot, device: 'furnace'|'smoker'|'blast_f
         break; // stalled for another reason
       }
     }
+    const cancelled = !!signal?.aborted;
     const timedOut = outputs < outputsTarget && Date.now() >= deadline;
-    const stalled = outputs < outputsTarget && !timedOut && !outOfFuel;
+    const stalled = outputs < outputsTarget && !timedOut && !outOfFuel && !cancelled;
     const reason = outOfFuel ? 'out_of_fuel' : timedOut ? 'timed_out' : (stalled ? 'stalled' : undefined);
-    return { ok: outputs >= outputsTarget, deviceUsed: device, outputsCollected: outputs, requested: count, remaining: Math.max(0, count - outputs), timedOut, stalled, outOfFuel, reason, output: lastOutName };
+    return { ok: outputs >= outputsTarget, deviceUsed: device, outputsCollected: outputs, requested: count, remaining: Math.max(0, count - outputs), timedOut, stalled, outOfFuel, reason, output: lastOutName, cancelled };
   } finally {
     try { furnace.close(); } catch {}
   }
@@ -1682,7 +3600,7 @@ async function cookOnCampfire(bot: Bot, itemName: string) {
 
 async function smeltItem(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  return withTask(bot, async (_signal) => {
+  return withTask(bot, async (signal) => {
   const itemName = String(params.itemName || 'iron_ore');
   const preferDevice = params.preferDevice ? String(params.preferDevice) : undefined;
   const fuelName = params.fuelName ? String(params.fuelName) : undefined;
@@ -1708,6 +3626,7 @@ async function smeltItem(params: Record<string, unknown>) {
   const attempts: string[] = [];
   const errors: string[] = [];
   for (const dev of sequence) {
+    if (signal.aborted) break;
     attempts.push(dev);
     try {
       if (dev === 'campfire') {
@@ -1716,14 +3635,15 @@ async function smeltItem(params: Record<string, unknown>) {
         errors.push('campfire_failed');
         continue;
       }
-      const r = await cookOrSmeltOnDevice(bot, dev, itemName, fuelName, count);
-      if (r?.ok) return { ...r, attemptedDevices: attempts };
+      const r = await cookOrSmeltOnDevice(bot, dev, itemName, fuelName, count, undefined, signal);
+      if (r?.ok || r?.cancelled) return { ...r, attemptedDevices: attempts };
       errors.push(`${dev}_failed${r?.timedOut ? ':timedOut' : ''}`);
     } catch (e: any) {
       errors.push(`${dev}: ${String(e?.message || e)}`);
       continue;
     }
   }
+  if (signal.aborted) return { ok: false, attemptedDevices: attempts, errors, cancelled: true };
   return { ok: false, error: 'no_device_available', attemptedDevices: attempts, errors };
   });
 }
@@ -1798,7 +3718,7 @@ async function returnToLastDeathLocation(params: Record<string, unknown>) {
 
 async function placeItemNearYou(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  const itemName = String(params.itemName || params.name || 'cobblestone');
+  const itemName = String(params.itemName || 'cobblestone');
   const item = bot.inventory.items().find(i => i.name === itemName);
   if (!item) throw new Error('Item not in inventory');
   try { pushSuspendAutoEat(bot); await bot.equip(item, 'hand'); } finally { popSuspendAutoEat(bot); }
@@ -1817,7 +3737,7 @@ async function placeItemNearYou(params: Record<string, unknown>) {
         const head = feet.offset(0, 1, 0);
         if ((pos.x === feet.x && pos.y === feet.y && pos.z === feet.z) || (pos.x === head.x && pos.y === head.y && pos.z === head.z)) continue;
         const here = bot.blockAt(pos);
-        if (!here || here.boundingBox !== 'empty') continue;
+        if (!here || here.boundingBox !== 'empty' || isProtectedPosition(bot, pos)) continue;
         for (const f of faces) {
           const refPos = pos.minus(f);
           const ref = bot.blockAt(refPos);
@@ -1891,7 +3811,7 @@ async function prepareLandForFarming(params: Record<string, unknown>) {
         }
         // Now clear obstruction (grass/flower), then verify air above
         if (above.boundingBox !== 'empty' && isPlantObstruction(above.name)) {
-          try { await bot.dig(above as any); await bot.waitForTicks(2); } catch {}
+          try { if (await breakBlock(bot, above)) continue; await bot.waitForTicks(2); } catch {}
         }
         const above2 = bot.blockAt(pos.offset(0, 1, 0));
         if (!above2 || above2.boundingBox !== 'empty') continue;
@@ -1956,11 +3876,13 @@ async function sleepInNearbyBed(params: Record<string, unknown>) {
       const bed = bot.blockAt((bedPos as any).position || (bedPos as any));
       if (bed) {
         await bot.activateBlock(bed as any);
+        recordAutoWaypoint(bot, 'bed', bed.position);
         return { ok: true, action: 'set_spawn' };
       }
     }
   } catch {}
   await bot.sleep(bedPos as any);
+  recordAutoWaypoint(bot, 'bed', (bedPos as any).position);
   return { ok: true, action: 'slept' };
 }
 
@@ -2015,12 +3937,13 @@ async function buildSomething(params: Record<string, unknown>) {
 async function depositItemsToNearbyChest(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
   return withTask(bot, async (_signal) => {
-  const itemName = String(params.itemName || params.name || '');
+  const itemName = String(params.itemName || '');
   const count = params.count != null ? Number(params.count) : null;
   if (!itemName) throw new Error('itemName required');
   const chestPos = await pathfindToPredicate(bot, (b: any) => b?.name?.includes('chest'), 24, 2);
   let chest: any;
   try { pushSuspendAutoEat(bot); chest = await bot.openChest(chestPos as any); } finally { popSuspendAutoEat(bot); }
+  recordAutoWaypoint(bot, 'chest', (chestPos as any).position);
   try {
     const item = bot.inventory.items().find(i => i.name === itemName);
     if (!item) throw new Error('Item not in inventory');
@@ -2036,12 +3959,13 @@ async function depositItemsToNearbyChest(params: Record<string, unknown>) {
 async function withdrawItemsFromNearbyChest(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
   return withTask(bot, async (_signal) => {
-  const itemName = String(params.itemName || params.name || '');
+  const itemName = String(params.itemName || '');
   const count = params.count != null ? Number(params.count) : null;
   if (!itemName) throw new Error('itemName required');
   const chestPos = await pathfindToPredicate(bot, (b: any) => b?.name?.includes('chest'), 24, 2);
   let chest: any;
   try { pushSuspendAutoEat(bot); chest = await bot.openChest(chestPos as any); } finally { popSuspendAutoEat(bot); }
+  recordAutoWaypoint(bot, 'chest', (chestPos as any).position);
   try {
     const mcDataMod = await import('minecraft-data');
     const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
@@ -2062,7 +3986,8 @@ async function digBlock(params: Record<string, unknown>) {
   const x = Number(params.x), y = Number(params.y), z = Number(params.z);
   const block = bot.blockAt(new Vec3(x, y, z));
   if (!block) throw new Error('Block not found');
-  try { pushSuspendAutoEat(bot); await bot.dig(block as any); } finally { popSuspendAutoEat(bot); }
+  const denial = await breakBlock(bot, block);
+  if (denial) return denial;
   return { ok: true };
   });
 }
@@ -2071,7 +3996,7 @@ async function placeBlockAt(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
   return withTask(bot, async (_signal) => {
   const x = Number(params.x), y = Number(params.y), z = Number(params.z);
-  const itemName = String(params.itemName || params.name || '');
+  const itemName = String(params.itemName || '');
   if (!itemName) throw new Error('itemName required');
   const item = bot.inventory.items().find(i => i.name === itemName);
   if (!item) throw new Error('Item not in inventory');
@@ -2139,7 +4064,7 @@ async function goToSurface(params: Record<string, unknown>) {
 
 async function findBlock(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  const name = String(params.blockName || params.name || '');
+  const name = String(params.blockName || '');
   if (!name) throw new Error('blockName required');
   const mcDataMod = await import('minecraft-data');
   const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
@@ -2160,6 +4085,174 @@ async function findEntity(params: Record<string, unknown>) {
   return { ok: true, entity: { name: ent.name || ent.username, position: { x: p.x, y: p.y, z: p.z } } };
 }
 
+// ---- Exploration ----
+// Blocks worth reporting when explore passes them, whatever it is looking for
+const NOTABLE_BLOCK = /(_ore$|^ancient_debris$|chest$|^spawner$|^nether_portal$|^end_portal_frame$|^bell$)/;
+const MAX_NOTABLE_PER_BLOCK = 5;
+
+const chunkKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+// Chunks a bot has stood in, per dimension; fed by movement and by explore itself
+function visitedChunks(bot: Bot): Set<string> {
+  const all: Map<string, Set<string>> = (bot as any).__visitedChunks ??= new Map();
+  const { dimension } = waypointScope(bot);
+  if (!all.has(dimension)) all.set(dimension, new Set());
+  return all.get(dimension)!;
+}
+
+function markVisited(bot: Bot): boolean {
+  const p = bot.entity?.position;
+  if (!p) return false;
+  const visited = visitedChunks(bot);
+  const key = chunkKey(Math.floor(p.x / 16), Math.floor(p.z / 16));
+  if (visited.has(key)) return false;
+  visited.add(key);
+  return true;
+}
+
+function trackVisitedChunks(bot: Bot) {
+  bot.on("move", () => { markVisited(bot); });
+}
+
+// Frontier = unexplored chunks at the edge of what the bot has visited or already seen
+// (`covered`), found by a breadth-first walk out from the visited chunks. Nearest wins, with
+// a pull toward the start so the explored area grows in rings instead of a long line.
+function pickFrontier(bot: Bot, start: Vec3, radius: number, covered: (cx: number, cz: number) => boolean): { cx: number; cz: number } | null {
+  const visited = visitedChunks(bot);
+  const here = bot.entity.position;
+  const queue = [...visited];
+  const seen = new Set(queue);
+  let best: { cx: number; cz: number } | null = null;
+  let bestScore = Infinity;
+  for (let i = 0; i < queue.length; i++) {
+    const [vx, vz] = queue[i].split(',').map(Number);
+    for (const [dx, dz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const cx = vx + dx, cz = vz + dz;
+      const k = chunkKey(cx, cz);
+      if (seen.has(k)) continue;
+      seen.add(k);
+      const x = cx * 16 + 8, z = cz * 16 + 8;
+      const fromStart = Math.hypot(x - start.x, z - start.z);
+      if (fromStart > radius) continue;
+      if (covered(cx, cz)) { queue.push(k); continue; }
+      const score = Math.hypot(x - here.x, z - here.z) + 0.5 * fromStart;
+      if (score < bestScore) { bestScore = score; best = { cx, cz }; }
+    }
+  }
+  return best;
+}
+
+async function explore(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  return withTask(bot, async (signal) => {
+  const blockName = params.blockName ? String(params.blockName) : undefined;
+  const entityName = params.entityName ? String(params.entityName) : undefined;
+  const entityType = params.entityType ? String(params.entityType) : undefined;
+  const maxDistance = Number(params.maxDistance ?? 512);
+  const maxMs = Number(params.maxMs ?? 180000);
+  const searchRadius = Number(params.searchRadius ?? 32);
+  const mcDataMod = await import('minecraft-data');
+  const mcData = (mcDataMod as any).default ? (mcDataMod as any).default(bot.version) : (mcDataMod as any)(bot.version);
+  const candidates = blockName ? resolveBlockAliases(blockName, mcData) : [];
+  if (blockName && !candidates.length) throw new Error(`Unknown block ${blockName}`);
+
+  const start = bot.entity.position.clone();
+  const startedAt = Date.now();
+  let travelled = 0;
+  let last = start.clone();
+  let newChunks = markVisited(bot) ? 1 : 0;
+  const unreachable = new Set<string>();
+  // Where the bot already searched from; frontiers well inside that view are not worth walking to
+  const lookouts: Vec3[] = [start.clone()];
+  const coverage = blockName || entityName || entityType ? searchRadius * 0.75 : 0;
+  const covered = (cx: number, cz: number) => unreachable.has(chunkKey(cx, cz))
+    || lookouts.some(l => Math.hypot(cx * 16 + 8 - l.x, cz * 16 + 8 - l.z) < coverage);
+  const notable: Record<string, Array<{ x: number; y: number; z: number }>> = {};
+  const entitiesSeen: Record<string, { count: number; nearest: { x: number; y: number; z: number } }> = {};
+  const seenEntityIds = new Set<number>();
+
+  const look = () => {
+    for (const v of bot.findBlocks({ matching: (b: any) => !!b && NOTABLE_BLOCK.test(b.name), maxDistance: 16, count: 32 })) {
+      const b = bot.blockAt(v);
+      if (!b) continue;
+      const list = notable[b.name] ??= [];
+      if (list.length < MAX_NOTABLE_PER_BLOCK && !list.some(p => p.x === v.x && p.y === v.y && p.z === v.z)) list.push({ x: v.x, y: v.y, z: v.z });
+    }
+    for (const e of Object.values(bot.entities) as any[]) {
+      if (!e?.position || e === bot.entity || seenEntityIds.has(e.id) || e.position.distanceTo(bot.entity.position) > 32) continue;
+      seenEntityIds.add(e.id);
+      const name = e.username || e.name || 'unknown';
+      const entry = entitiesSeen[name] ??= { count: 0, nearest: { x: e.position.x, y: e.position.y, z: e.position.z } };
+      entry.count++;
+    }
+  };
+  const lookForTarget = (): any => {
+    if (blockName) {
+      const block = bot.findBlock({ matching: (b: any) => !!b && candidates.includes(b.name), maxDistance: searchRadius });
+      if (block) return { kind: 'block', name: block.name, position: { x: block.position.x, y: block.position.y, z: block.position.z } };
+    }
+    if (entityName || entityType) {
+      const ent = findEntityNear(bot, searchRadius, entityName, entityType);
+      if (ent) return { kind: 'entity', ...ent };
+    }
+    return null;
+  };
+  const track = () => {
+    const p = bot.entity.position;
+    travelled += p.distanceTo(last);
+    last = p.clone();
+    if (markVisited(bot)) newChunks++;
+  };
+
+  let found = lookForTarget();
+  let stopReason = found ? 'found' : '';
+  look();
+  while (!found) {
+    if (signal.aborted) { stopReason = 'cancelled'; break; }
+    if (Date.now() - startedAt >= maxMs) { stopReason = 'time_budget'; break; }
+    if (travelled >= maxDistance) { stopReason = 'distance_budget'; break; }
+    const frontier = pickFrontier(bot, start, maxDistance, covered);
+    if (!frontier) { stopReason = 'no_frontier'; break; }
+    const tx = frontier.cx * 16 + 8, tz = frontier.cz * 16 + 8;
+    bot.pathfinder.setMovements(configureMovementsDefaults(new Movements(bot)));
+    bot.pathfinder.setGoal(new goals.GoalNearXZ(tx, tz, 4));
+    const legStart = Date.now();
+    let best = Infinity;
+    let lastProgressAt = legStart;
+    while (true) {
+      track();
+      const dist = Math.hypot(bot.entity.position.x - tx, bot.entity.position.z - tz);
+      if (dist <= 6) break;
+      if (dist + 0.5 < best) { best = dist; lastProgressAt = Date.now(); }
+      if (signal.aborted || Date.now() - startedAt >= maxMs || travelled >= maxDistance) break;
+      // A frontier we cannot get closer to is dropped instead of retried forever
+      if (Date.now() - lastProgressAt > 10000) { unreachable.add(chunkKey(frontier.cx, frontier.cz)); break; }
+      await bot.waitForTicks(5);
+      if (blockName || entityName || entityType) { found = lookForTarget(); if (found) break; }
+    }
+    try { bot.pathfinder.setGoal(null); } catch {}
+    track();
+    look();
+    lookouts.push(bot.entity.position.clone());
+    if (!found) found = lookForTarget();
+    if (found) stopReason = 'found';
+    signal.progress({ completed: newChunks, remaining: Math.max(0, Math.round(maxDistance - travelled)), failed: unreachable.size });
+  }
+  try { bot.pathfinder.setGoal(null); } catch {}
+  const p = bot.entity.position;
+  return {
+    ok: !!found || !(blockName || entityName || entityType),
+    found: found ?? null,
+    stopReason,
+    travelled: Math.round(travelled),
+    elapsedMs: Date.now() - startedAt,
+    position: { x: p.x, y: p.y, z: p.z },
+    discovered: { newChunks, visitedChunks: visitedChunks(bot).size, unreachableChunks: unreachable.size, blocks: notable, entities: entitiesSeen },
+    cancelled: signal.aborted
+  };
+  });
+}
+
 // Follow and stopFollow
 async function followPlayer(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
@@ -2216,6 +4309,120 @@ async function scanArea(params: Record<string, unknown>) {
   return { ok: true, blocks: blockCounts, samples: sampleCoords, entities, droppedItems: dropped };
 }
 
+// ---- Map rendering ----
+// Text maps with north up: one character per block column, rows run north to south
+const MAX_MAP_RADIUS = 32;
+const MAP_SCAN_UP = 24;
+const MAP_SCAN_DOWN = 32;
+const MAP_LEGEND: Record<string, string> = {
+  '^': 'you, facing north', '>': 'you, facing east', 'v': 'you, facing south', '<': 'you, facing west',
+  'P': 'player', 'H': 'hostile mob', 'm': 'other mob',
+  '~': 'water', '%': 'lava', 'T': 'tree', '$': 'ore', 'C': 'chest or barrel',
+  '.': 'ground', '#': 'solid block', ' ': 'air or nothing below', '?': 'not loaded'
+};
+const GROUND_BLOCK = /^(grass_block|dirt|coarse_dirt|rooted_dirt|podzol|mycelium|sand|red_sand|gravel|clay|farmland|dirt_path|snow|snow_block|mud|moss_block)$/;
+
+function mapSymbol(b: any): string {
+  const n = String(b?.name ?? '');
+  if (n === 'water' || n === 'bubble_column') return '~';
+  if (n === 'lava') return '%';
+  if (/_log$|_leaves$|_stem$|_wart_block$/.test(n)) return 'T';
+  if (/_ore$|^ancient_debris$/.test(n)) return '$';
+  if (/chest$|^barrel$/.test(n)) return 'C';
+  if (GROUND_BLOCK.test(n)) return '.';
+  if (b?.boundingBox === 'empty') return ' ';
+  return '#';
+}
+
+// Topmost block that shows from above; plants, torches and the like are looked through
+function surfaceBlock(bot: Bot, x: number, z: number, fromY: number, toY: number): any | null | undefined {
+  let loaded = false;
+  for (let y = fromY; y >= toY; y--) {
+    const b = bot.blockAt(new Vec3(x, y, z));
+    if (!b) continue;
+    loaded = true;
+    if (b.boundingBox !== 'empty' || b.name === 'water' || b.name === 'lava') return b;
+  }
+  return loaded ? null : undefined;
+}
+
+function headingSymbol(yaw: number): string {
+  const dx = -Math.sin(yaw), dz = -Math.cos(yaw);
+  if (Math.abs(dz) >= Math.abs(dx)) return dz < 0 ? '^' : 'v';
+  return dx > 0 ? '>' : '<';
+}
+
+// Relative height as one character: 0 level, 1-9 higher, a-i lower (a = 1 below)
+function heightSymbol(dy: number): string {
+  if (dy === 0) return '0';
+  const n = Math.min(9, Math.abs(dy));
+  return dy > 0 ? String(n) : String.fromCharCode(96 + n);
+}
+
+async function renderMap(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const mode = String(params.mode ?? 'top');
+  if (!['top', 'slice', 'height'].includes(mode)) return { ok: false, error: 'invalid_mode', mode, allowed: ['top', 'slice', 'height'] };
+  const radius = Math.max(1, Math.min(MAX_MAP_RADIUS, Math.floor(Number(params.radius ?? 12))));
+  const origin = bot.entity.position.floored();
+  const sliceY = params.y != null ? Math.floor(Number(params.y)) : origin.y;
+  const ground = origin.y - 1;
+  const rows: string[][] = [];
+  for (let dz = -radius; dz <= radius; dz++) {
+    const row: string[] = [];
+    for (let dx = -radius; dx <= radius; dx++) {
+      const x = origin.x + dx, z = origin.z + dz;
+      if (mode === 'slice') {
+        const b = bot.blockAt(new Vec3(x, sliceY, z));
+        row.push(b ? mapSymbol(b) : '?');
+        continue;
+      }
+      const top = surfaceBlock(bot, x, z, origin.y + MAP_SCAN_UP, origin.y - MAP_SCAN_DOWN);
+      if (top === undefined) row.push('?');
+      else if (top === null) row.push(' ');
+      else if (mode === 'height') row.push(top.name === 'water' || top.name === 'lava' ? mapSymbol(top) : heightSymbol(top.position.y - ground));
+      else row.push(mapSymbol(top));
+    }
+    rows.push(row);
+  }
+  const legend: Record<string, string> = {};
+  const put = (p: Vec3, symbol: string) => {
+    const col = Math.floor(p.x) - origin.x + radius, row = Math.floor(p.z) - origin.z + radius;
+    if (row < 0 || row >= rows.length || col < 0 || col >= rows.length) return;
+    rows[row][col] = symbol;
+  };
+  for (const e of Object.values(bot.entities) as any[]) {
+    if (!e?.position || e === bot.entity) continue;
+    // A slice only shows what stands in it
+    if (mode === 'slice' && Math.abs(Math.floor(e.position.y) - sliceY) > 1) continue;
+    if (e.type === 'player') put(e.position, 'P');
+    else if (isHostileEntityName(e.name || e.displayName, bot)) put(e.position, 'H');
+    else if (e.type === 'mob' || e.type === 'animal' || e.type === 'hostile' || e.type === 'water_creature') put(e.position, 'm');
+  }
+  put(bot.entity.position, headingSymbol(bot.entity.yaw ?? 0));
+  const lines = rows.map(r => r.join(''));
+  if (mode === 'height') {
+    legend['0'] = `level with the ground you stand on (y=${ground})`;
+    legend['1-9'] = 'blocks higher';
+    legend['a-i'] = 'blocks lower (a = 1, i = 9 or more)';
+  }
+  for (const ch of new Set(lines.join(''))) {
+    if (mode === 'height' && /^[0-9a-i]$/.test(ch)) continue;
+    if (MAP_LEGEND[ch]) legend[ch] = MAP_LEGEND[ch];
+  }
+  if (mode === 'slice' && legend[' ']) legend[' '] = 'air';
+  return {
+    ok: true,
+    mode,
+    origin: { x: origin.x, y: origin.y, z: origin.z },
+    ...(mode === 'slice' ? { y: sliceY } : {}),
+    bounds: { minX: origin.x - radius, maxX: origin.x + radius, minZ: origin.z - radius, maxZ: origin.z + radius },
+    orientation: 'north is up, east is right; one character per block',
+    map: lines.join('\n'),
+    legend
+  };
+}
+
 // Plant seeds within radius
 async function plantSeedsWithinRadius(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
@@ -2277,34 +4484,226 @@ async function stopAttack(params: Record<string, unknown>) {
   return { ok: true };
 }
 
-async function readChat(params: Record<string, unknown>) {
-  const bot = getBotOrThrow(String(params.username || ""));
-  // Mineflayer doesn't buffer chat history; we expose last N captured messages
-  // Simple in-memory buffer per bot
-  // @ts-ignore
-  if (!bot.__chatLog) {
-    // @ts-ignore
-    bot.__chatLog = [] as Array<{ type: string; text: string; from?: string; time: number }>;
+// Simple in-memory chat buffer per bot (Mineflayer doesn't keep chat history)
+function ensureChatLog(bot: Bot): Array<{ type: string; text: string; from?: string; time: number }> {
+  if (!(bot as any).__chatLog) {
+    const chatLog: Array<{ type: string; text: string; from?: string; time: number }> = [];
+    (bot as any).__chatLog = chatLog;
+    const push = (entry: { type: string; text: string; from?: string; time: number }) => {
+      chatLog.push(entry);
+      if (chatLog.length > 100) chatLog.shift();
+      notifyResourceUpdated(botKey(bot), 'chat');
+    };
     bot.on("chat", (username: string, message: string) => {
-      // @ts-ignore
-      bot.__chatLog.push({ type: "chat", text: message, from: username, time: Date.now() });
-      // @ts-ignore
-      if (bot.__chatLog.length > 100) bot.__chatLog.shift();
+      push({ type: "chat", text: message, from: username, time: Date.now() });
     });
     bot.on("message", (jsonMsg: any) => {
       const text = jsonMsg?.toString?.() ?? String(jsonMsg?.text ?? "");
-      // @ts-ignore
-      bot.__chatLog.push({ type: "system", text, time: Date.now() });
-      // @ts-ignore
-      if (bot.__chatLog.length > 100) bot.__chatLog.shift();
+      push({ type: "system", text, time: Date.now() });
     });
   }
+  return (bot as any).__chatLog;
+}
+
+async function readChat(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
   const count = Number(params.count ?? 20);
-  // @ts-ignore
-  const slice = bot.__chatLog.slice(-count);
+  const slice = ensureChatLog(bot).slice(-count);
   return { ok: true, messages: slice };
 }
 
+// ---- Event waits ----
+type BotEventType = 'chat' | 'hurt' | 'death' | 'playerJoined' | 'playerLeft' | 'blockChange' | 'dusk';
+type BotEvent = { seq: number; type: BotEventType; time: number; data: Record<string, unknown> };
+type EventLog = {
+  seq: number;
+  events: BotEvent[];
+  // Called with each new event, or null when the bot disconnects
+  waiters: Set<(event: BotEvent | null) => void>;
+  // Last event handed out per type, so the next wait resumes after it
+  cursors: Partial<Record<BotEventType, number>>;
+};
+const MAX_BUFFERED_EVENTS = 200;
+const DUSK_TIME = 12000;
+
+// True when the clock moved from `prev` to `cur` past `mark`, allowing for the day wrapping
+function crossedTimeOfDay(prev: number, cur: number, mark: number): boolean {
+  const moved = (cur - prev + 24000) % 24000;
+  if (moved === 0 || moved > 12000) return false; // no change, or /time set backwards
+  const toMark = (mark - prev + 24000) % 24000;
+  return toMark > 0 && toMark <= moved;
+}
+
+function ensureEventLog(bot: Bot): EventLog {
+  if (!(bot as any).__eventLog) {
+    const log: EventLog = { seq: 0, events: [], waiters: new Set(), cursors: {} };
+    (bot as any).__eventLog = log;
+    const push = (type: BotEventType, data: Record<string, unknown>) => {
+      const event: BotEvent = { seq: ++log.seq, type, time: Date.now(), data };
+      log.events.push(event);
+      if (log.events.length > MAX_BUFFERED_EVENTS) log.events.shift();
+      for (const waiter of [...log.waiters]) waiter(event);
+    };
+    bot.on("chat", (username: string, message: string) => {
+      if (username === bot.username) return;
+      push('chat', { from: username, message });
+    });
+    bot.on("whisper", (username: string, message: string) => {
+      if (username === bot.username) return;
+      push('chat', { from: username, message, whisper: true });
+    });
+    bot.on("entityHurt", (entity: any) => {
+      if (entity !== bot.entity) return;
+      push('hurt', { health: bot.health, position: bot.entity?.position ? xyz(bot.entity.position) : undefined });
+    });
+    bot.on("death", () => {
+      push('death', { position: bot.entity?.position ? xyz(bot.entity.position) : undefined });
+    });
+    // The server replays the whole player list on login; only report joins after that
+    let playersSettled = false;
+    bot.once("spawn", () => { setTimeout(() => { playersSettled = true; }, 1000); });
+    bot.on("playerJoined", (player: any) => {
+      if (!playersSettled || player?.username === bot.username) return;
+      push('playerJoined', { username: player?.username });
+    });
+    bot.on("playerLeft", (player: any) => {
+      if (player?.username === bot.username) return;
+      push('playerLeft', { username: player?.username });
+    });
+    bot.on("blockUpdate", (oldBlock: any, newBlock: any) => {
+      if (!newBlock?.position || oldBlock?.type === newBlock.type) return;
+      push('blockChange', { position: xyz(newBlock.position), from: oldBlock?.name ?? null, to: newBlock.name });
+    });
+    let lastTimeOfDay: number | null = null;
+    bot.on("time", () => {
+      const tod = (bot as any).time?.timeOfDay;
+      if (typeof tod !== 'number') return;
+      if (lastTimeOfDay !== null && crossedTimeOfDay(lastTimeOfDay, tod, DUSK_TIME)) push('dusk', { timeOfDay: tod });
+      lastTimeOfDay = tod;
+    });
+    bot.on("end", () => {
+      for (const waiter of [...log.waiters]) waiter(null);
+    });
+  }
+  return (bot as any).__eventLog;
+}
+
+function findEntityNear(bot: Bot, radius: number, entityName?: string, entityType?: string): any {
+  const self = bot.entity?.position;
+  if (!self) return undefined;
+  let best: any;
+  let bestDist = Infinity;
+  for (const e of Object.values(bot.entities) as any[]) {
+    if (!e || e === bot.entity || !e.position) continue;
+    if (entityType && e.type !== entityType) continue;
+    if (entityName) {
+      const names = [e.name, e.username, e.displayName].filter(Boolean).map((n: string) => String(n).toLowerCase());
+      if (!names.includes(entityName.toLowerCase())) continue;
+    }
+    const d = e.position.distanceTo(self);
+    if (d <= radius && d < bestDist) { best = e; bestDist = d; }
+  }
+  return best ? { id: best.id, name: best.username || best.name, type: best.type, position: xyz(best.position), distance: Math.round(bestDist * 10) / 10 } : undefined;
+}
+
+// Resolves with the wait outcome; shared by the buffered events and the entity proximity poll
+function waitUntil<T>(timeoutMs: number, subscribe: (done: (value: T | null, reason?: string) => void) => () => void): Promise<{ value: T | null; reason?: string }> {
+  const signal = taskContext.getStore()?.signal;
+  return new Promise((resolve) => {
+    let unsubscribe = () => {};
+    let settled = false;
+    const done = (value: T | null, reason?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      unsubscribe();
+      resolve({ value, reason });
+    };
+    const onAbort = () => done(null, 'cancelled');
+    const timer = setTimeout(() => done(null, 'timeout'), timeoutMs);
+    if (signal?.aborted) { done(null, 'cancelled'); return; }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    unsubscribe = subscribe(done);
+  });
+}
+
+async function waitForEvent(params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  const event = String(params.event || "");
+  const timeoutMs = Math.max(0, Math.min(600000, Number(params.timeoutMs ?? 30000)));
+  const start = Date.now();
+
+  if (event === 'entityNear') {
+    // Proximity is a state rather than an event, so check it now and then poll
+    const radius = Number(params.radius ?? 8);
+    const entityName = params.entityName ? String(params.entityName) : undefined;
+    const entityType = params.entityType ? String(params.entityType) : undefined;
+    const current = findEntityNear(bot, radius, entityName, entityType);
+    if (current) return { ok: true, type: 'entityNear', time: Date.now(), data: current, buffered: false, waitedMs: 0 };
+    const { value, reason } = await waitUntil<any>(timeoutMs, (done) => {
+      const poll = setInterval(() => {
+        if (bots.get(botKey(bot)) !== bot) return done(null, 'bot_disconnected');
+        const found = findEntityNear(bot, radius, entityName, entityType);
+        if (found) done(found);
+      }, 250);
+      return () => clearInterval(poll);
+    });
+    const waitedMs = Date.now() - start;
+    if (!value) return { ok: false, event, error: reason, timedOut: reason === 'timeout', waitedMs };
+    return { ok: true, type: 'entityNear', time: Date.now(), data: value, buffered: false, waitedMs };
+  }
+
+  const types: BotEventType[] = ['chat', 'hurt', 'death', 'playerJoined', 'playerLeft', 'blockChange', 'dusk'];
+  if (!types.includes(event as BotEventType)) throw new Error(`unknown_event: ${event}`);
+  const type = event as BotEventType;
+  let pattern: RegExp | undefined;
+  if (params.pattern != null) {
+    try { pattern = new RegExp(String(params.pattern), 'i'); }
+    catch (e: any) { return { ok: false, event, error: 'invalid_pattern', message: String(e?.message || e) }; }
+  }
+  const from = params.from ? String(params.from).toLowerCase() : undefined;
+  const player = params.player ? String(params.player).toLowerCase() : undefined;
+  let at: { x: number; y: number; z: number } | undefined;
+  if (type === 'blockChange') {
+    if (![params.x, params.y, params.z].every(v => typeof v === 'number')) throw new Error('blockChange requires x, y and z');
+    at = { x: Math.floor(Number(params.x)), y: Math.floor(Number(params.y)), z: Math.floor(Number(params.z)) };
+  }
+  const matches = (e: BotEvent) => {
+    if (e.type !== type) return false;
+    if (type === 'chat') {
+      if (from && String(e.data.from).toLowerCase() !== from) return false;
+      if (pattern && !pattern.test(String(e.data.message))) return false;
+    }
+    if ((type === 'playerJoined' || type === 'playerLeft') && player && String(e.data.username).toLowerCase() !== player) return false;
+    if (at) {
+      const p = e.data.position as { x: number; y: number; z: number };
+      if (p.x !== at.x || p.y !== at.y || p.z !== at.z) return false;
+    }
+    return true;
+  };
+
+  const log = ensureEventLog(bot);
+  const since = params.sinceSeq != null ? Number(params.sinceSeq) : (log.cursors[type] ?? 0);
+  const buffered = log.events.find(e => e.seq > since && matches(e));
+  if (buffered) {
+    log.cursors[type] = buffered.seq;
+    return { ok: true, ...buffered, buffered: true, waitedMs: 0 };
+  }
+  const { value, reason } = await waitUntil<BotEvent>(timeoutMs, (done) => {
+    const waiter = (e: BotEvent | null) => {
+      if (!e) done(null, 'bot_disconnected');
+      else if (matches(e)) done(e);
+    };
+    log.waiters.add(waiter);
+    return () => { log.waiters.delete(waiter); };
+  });
+  const waitedMs = Date.now() - start;
+  if (!value) return { ok: false, event, error: reason, timedOut: reason === 'timeout', waitedMs, latestSeq: log.seq };
+  log.cursors[type] = value.seq;
+  return { ok: true, ...value, buffered: false, waitedMs };
+}
+
 async function attackSomeone(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
   const type = String(params.targetType || "player");
@@ -2357,7 +4756,7 @@ async function openInventory(params: Record<string, unknown>) {
 
 async function equipItem(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
-  const itemName = String(params.name || params.itemName || "");
+  const itemName = String(params.name || "");
   const destination = String((params as any).destination || 'hand');
   const item = bot.inventory.items().find(i => i.name === itemName);
   if (!item) throw new Error(`Item '${itemName}' not found in inventory`);
@@ -2401,10 +4800,131 @@ async function giveItemToSomeone(params: Record<string, unknown>) {
   return { ok: true };
 }
 
+// ---- Perception ----
+// What the bot can actually see: rays are cast through the block grid from its eyes and stop
+// at the first solid block, so anything behind a wall stays hidden (scanArea reads every block)
+const EYE_HEIGHT = 1.62;
+const DEFAULT_FOV = 90;
+const DEFAULT_VIEW_RANGE = 32;
+const MAX_VIEW_RANGE = 64;
+const MAX_RAYS_PER_AXIS = 64;
+const COMPASS = ['south', 'south-west', 'west', 'north-west', 'north', 'north-east', 'east', 'south-east'];
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Unit vector for mineflayer's yaw/pitch (radians; yaw 0 faces north, pi/2 west; pitch up is positive)
+function viewVector(yaw: number, pitch: number): Vec3 {
+  return new Vec3(-Math.sin(yaw) * Math.cos(pitch), Math.sin(pitch), -Math.cos(yaw) * Math.cos(pitch));
+}
+
+function compassDirection(dx: number, dz: number): string {
+  const angle = toDeg(Math.atan2(-dx, dz));
+  return COMPASS[((Math.round(angle / 45) % 8) + 8) % 8];
+}
+
+// Steps through every block a ray enters (Amanatides & Woo) until visit returns true,
+// an unloaded block is reached or the range runs out
+function castRay(bot: Bot, from: Vec3, dir: Vec3, range: number, visit: (block: any, distance: number) => boolean) {
+  const cell = from.floored();
+  const step = [Math.sign(dir.x), Math.sign(dir.y), Math.sign(dir.z)];
+  const axes = [[from.x, dir.x, cell.x], [from.y, dir.y, cell.y], [from.z, dir.z, cell.z]];
+  const next = axes.map(([p, d, c]) => d > 0 ? (c + 1 - p) / d : d < 0 ? (p - c) / -d : Infinity);
+  const delta = axes.map(([, d]) => d ? Math.abs(1 / d) : Infinity);
+  const pos = [cell.x, cell.y, cell.z];
+  let t = 0;
+  while (t <= range) {
+    const b = bot.blockAt(new Vec3(pos[0], pos[1], pos[2]));
+    if (!b || visit(b, t)) return;
+    const axis = next[0] <= next[1] && next[0] <= next[2] ? 0 : next[1] <= next[2] ? 1 : 2;
+    pos[axis] += step[axis];
+    t = next[axis];
+    next[axis] += delta[axis];
+  }
+}
+
 async function lookAround(params: Record<string, unknown>) {
-  // Deprecated in favor of scanArea; keep for backward compatibility but no-op fast
   const bot = getBotOrThrow(String(params.username || ""));
-  return { ok: true, deprecated: true };
+  const yaw = params.yaw != null ? toRad(Number(params.yaw)) : bot.entity.yaw;
+  const pitch = params.pitch != null ? toRad(Number(params.pitch)) : bot.entity.pitch;
+  if (!Number.isFinite(yaw) || !Number.isFinite(pitch)) return { ok: false, error: 'invalid_direction' };
+  const fov = Math.max(1, Math.min(180, Number(params.fov ?? DEFAULT_FOV)));
+  const range = Math.max(1, Math.min(MAX_VIEW_RANGE, Number(params.range ?? DEFAULT_VIEW_RANGE)));
+  const perAxis = Math.min(MAX_RAYS_PER_AXIS, Math.ceil(fov / Math.max(0.5, Number(params.resolution ?? 2))) + 1);
+  const eye = bot.entity.position.offset(0, EYE_HEIGHT, 0);
+
+  // Where something is relative to the eyes and the centre of the view
+  const describe = (target: Vec3) => {
+    const v = target.minus(eye);
+    const right = toDeg(yaw - Math.atan2(-v.x, -v.z));
+    const up = toDeg(Math.atan2(v.y, Math.hypot(v.x, v.z)) - pitch);
+    return {
+      distance: round1(v.norm()),
+      direction: compassDirection(v.x, v.z),
+      offset: { right: Math.round(((right + 540) % 360) - 180), up: Math.round(up) }
+    };
+  };
+
+  const seen = new Map<string, { block: any; distance: number }>();
+  for (let i = 0; i < perAxis; i++) {
+    for (let j = 0; j < perAxis; j++) {
+      const a = perAxis === 1 ? 0 : -fov / 2 + fov * i / (perAxis - 1);
+      const b = perAxis === 1 ? 0 : -fov / 2 + fov * j / (perAxis - 1);
+      const rayPitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, pitch + toRad(b)));
+      castRay(bot, eye, viewVector(yaw + toRad(a), rayPitch), range, (block, distance) => {
+        if (block.name === 'air' || block.name === 'cave_air' || block.name === 'void_air') return false;
+        const k = `${block.position.x},${block.position.y},${block.position.z}`;
+        const prev = seen.get(k);
+        if (!prev || distance < prev.distance) seen.set(k, { block, distance });
+        // Water, plants and other blocks without a collision box do not block the view
+        return block.boundingBox !== 'empty';
+      });
+    }
+  }
+  const byName = new Map<string, { name: string; count: number; nearest: any; d: number }>();
+  for (const { block, distance } of seen.values()) {
+    const entry = byName.get(block.name) ?? { name: block.name, count: 0, nearest: null, d: Infinity };
+    entry.count++;
+    if (distance < entry.d) {
+      entry.d = distance;
+      entry.nearest = { position: xyz(block.position), ...describe(block.position.offset(0.5, 0.5, 0.5)) };
+    }
+    byName.set(block.name, entry);
+  }
+  const blocks = [...byName.values()].sort((x, y) => x.d - y.d).map(({ name, count, nearest }) => ({ name, count, nearest }));
+
+  const entities: any[] = [];
+  for (const e of Object.values(bot.entities) as any[]) {
+    if (!e?.position || e === bot.entity) continue;
+    const height = Number(e.height ?? 1);
+    const centre = e.position.offset(0, height / 2, 0);
+    const where = describe(centre);
+    if (where.distance > range || Math.abs(where.offset.right) > fov / 2 || Math.abs(where.offset.up) > fov / 2) continue;
+    // Seen if a clear line reaches its middle or its head
+    const inSight = (point: Vec3) => {
+      const dist = point.distanceTo(eye);
+      let blocked = false;
+      castRay(bot, eye, point.minus(eye).scaled(1 / dist), dist, (block, distance) => {
+        blocked = block.boundingBox !== 'empty' && distance < dist;
+        return blocked;
+      });
+      return !blocked;
+    };
+    if (!inSight(centre) && !inSight(e.position.offset(0, height * 0.9, 0))) continue;
+    entities.push({ id: e.id, name: e.username || e.name, type: e.type, position: xyz(e.position), ...where });
+  }
+  entities.sort((x, y) => x.distance - y.distance);
+
+  const target: any = bot.blockAtCursor(range);
+  const cursor = target ? { name: target.name, position: xyz(target.position), face: target.face, ...describe(target.position.offset(0.5, 0.5, 0.5)) } : null;
+  return {
+    ok: true,
+    eye: xyz(eye),
+    view: { yaw: Math.round(toDeg(yaw)), pitch: Math.round(toDeg(pitch)), facing: compassDirection(-Math.sin(yaw), -Math.cos(yaw)), fov, range, rays: perAxis * perAxis },
+    cursor,
+    blocks,
+    entities
+  };
 }
 
 async function eatFood(params: Record<string, unknown>) {
@@ -2419,6 +4939,7 @@ async function eatFood(params: Record<string, unknown>) {
 // Gather wheat seeds by breaking nearby grass/tall_grass until count reached
 async function gatherSeeds(params: Record<string, unknown>) {
   const bot = getBotOrThrow(String(params.username || ""));
+  return withTask(bot, async (signal) => {
   const targetSeeds = Math.max(1, Number((params as any).count ?? 8));
   const radius = Math.max(2, Math.min(32, Number((params as any).radius ?? 8)));
   const maxMs = Number((params as any).maxMs ?? 120000);
@@ -2437,7 +4958,7 @@ async function gatherSeeds(params: Record<string, unknown>) {
       for (let dy = -1; dy <= 2; dy++) {
         const p = new Vec3(origin.x + dx, origin.y + dy, origin.z + dz);
         const b = bot.blockAt(p);
-        if (!b) continue;
+        if (!b || isProtectedPosition(bot, p)) continue;
         if (b.name === 'grass' || b.name === 'tall_grass' || b.name === 'fern' || b.name === 'large_fern') targets.push(b);
       }
     }
@@ -2446,6 +4967,7 @@ async function gatherSeeds(params: Record<string, unknown>) {
 
   let broken = 0; const errors: Array<{x:number,y:number,z:number,error:string}> = [];
   for (const b of targets) {
+    if (signal.aborted) break;
     try {
       // Move close
       const p: any = (b as any).position || b;
@@ -2453,14 +4975,20 @@ async function gatherSeeds(params: Record<string, unknown>) {
       bot.pathfinder.setMovements(movements);
       bot.pathfinder.setGoal(new goals.GoalNear(p.x, p.y, p.z, 1));
       const navStart = Date.now();
-      while (Date.now() - navStart < 15000) { const d = bot.entity.position.distanceTo(new Vec3(p.x, p.y, p.z)); if (d <= 2.5) break; await bot.waitForTicks(5); }
-      try { pushSuspendAutoEat(bot); await bot.dig(b as any); } finally { popSuspendAutoEat(bot); }
+      while (Date.now() - navStart < 15000 && !signal.aborted) { const d = bot.entity.position.distanceTo(new Vec3(p.x, p.y, p.z)); if (d <= 2.5) break; await bot.waitForTicks(5); }
+      const denial = await breakBlock(bot, b);
+      if (denial) {
+        const gained = Math.max(0, countSeeds() - seedsStart);
+        return { ...denial, ok: gained > 0, requested: targetSeeds, seeds: gained, remaining: Math.max(0, targetSeeds - gained), broken, errors };
+      }
       broken++;
       await bot.waitForTicks(2);
       const seedsNow = countSeeds();
       if (seedsNow > seedsStart) {
         lastProgressAt = Date.now();
       }
+      const gainedNow = Math.max(0, seedsNow - seedsStart);
+      signal.progress({ completed: gainedNow, remaining: Math.max(0, targetSeeds - gainedNow), failed: errors.length, total: targetSeeds });
       if (seedsNow - seedsStart >= targetSeeds) break;
     } catch (e: any) {
       const q: any = (b as any).position || b;
@@ -2472,173 +5000,596 @@ async function gatherSeeds(params: Record<string, unknown>) {
   const gained = Math.max(0, seedsEnd - seedsStart);
   const timedOut = Date.now() - start > maxMs;
   const stalled = Date.now() - lastProgressAt > stallMs && gained < targetSeeds;
-  return { ok: gained > 0, requested: targetSeeds, seeds: gained, remaining: Math.max(0, targetSeeds - gained), broken, timedOut, stalled, errors };
+  return { ok: gained > 0, requested: targetSeeds, seeds: gained, remaining: Math.max(0, targetSeeds - gained), broken, timedOut, stalled, errors, cancelled: signal.aborted };
+  });
+}
+
+// ---- Tool registry and argument validation ----
+type JsonType = 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+type JsonSchema = {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  additionalProperties?: boolean;
+  description?: string;
+  // An older name for another argument, still accepted: runToolCall renames it before validation
+  deprecated?: boolean;
+  aliasOf?: string;
+};
+
+const argAlias = (of: string): JsonSchema => ({ type: 'string', deprecated: true, aliasOf: of, description: `Deprecated alias of ${of}` });
+
+type ToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  handler: (params: Record<string, unknown>) => Promise<any>;
+  // Tool may be started with `background: true` and tracked as a job
+  background?: boolean;
+  // Read-only tool: the status attached to its result leaves one-shot fields in place
+  peek?: boolean;
+};
+
+type ArgIssue = {
+  field: string;
+  error: 'missing_required' | 'unknown_field' | 'invalid_type' | 'invalid_enum';
+  expected?: string;
+  received?: string;
+  allowed?: Array<string | number>;
+  didYouMean?: string;
+};
+
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+// Suggest the closest declared field for typos like `itemname` -> `itemName`
+function suggestField(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  const exact = known.find(k => k.toLowerCase() === lower);
+  if (exact) return exact;
+  let best: string | undefined;
+  let bestDist = 3;
+  for (const k of known) {
+    const d = editDistance(lower, k.toLowerCase());
+    if (d < bestDist) { best = k; bestDist = d; }
+  }
+  return best;
+}
+
+function validateAgainstSchema(schema: JsonSchema, value: unknown, field: string, issues: ArgIssue[]) {
+  const received = jsonTypeOf(value);
+  const types = schema.type == null ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const matches = (t: JsonType) => t === 'integer' ? Number.isInteger(value)
+    : t === 'number' ? (typeof value === 'number' && Number.isFinite(value))
+    : received === t;
+  const type = types.find(matches);
+  if (types.length && !type) { issues.push({ field, error: 'invalid_type', expected: types.join(' | '), received }); return; }
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    issues.push({ field, error: 'invalid_enum', allowed: schema.enum, received: String(value) });
+    return;
+  }
+  if (type === 'array' && schema.items) {
+    (value as unknown[]).forEach((v, i) => validateAgainstSchema(schema.items!, v, `${field}[${i}]`, issues));
+  }
+  if (type === 'object') {
+    const obj = value as Record<string, unknown>;
+    const props = schema.properties || {};
+    const prefix = field ? `${field}.` : '';
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined || obj[key] === null) issues.push({ field: prefix + key, error: 'missing_required' });
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const sub = props[key];
+      if (!sub) {
+        if (schema.additionalProperties !== true) issues.push({ field: prefix + key, error: 'unknown_field', didYouMean: suggestField(key, Object.keys(props).filter(k => !props[k].aliasOf)) });
+        continue;
+      }
+      // Clients commonly send null for omitted optionals; handlers treat it as absent
+      if (v === undefined || v === null) continue;
+      validateAgainstSchema(sub, v, prefix + key, issues);
+    }
+  }
+}
+
+// Legacy names such as mineResource `resource` reach the handler under the current name
+function resolveArgAliases(tool: ToolDefinition, args: unknown): unknown {
+  if (jsonTypeOf(args) !== 'object') return args;
+  const out: Record<string, unknown> = { ...(args as Record<string, unknown>) };
+  for (const [key, schema] of Object.entries(tool.inputSchema.properties || {})) {
+    if (!schema.aliasOf || out[key] === undefined) continue;
+    if (out[schema.aliasOf] == null) out[schema.aliasOf] = out[key];
+    delete out[key];
+  }
+  return out;
+}
+
+function validateToolArgs(tool: ToolDefinition, args: unknown): ArgIssue[] {
+  const issues: ArgIssue[] = [];
+  validateAgainstSchema(tool.inputSchema, args, '', issues);
+  return issues;
+}
+
+// ---- Bot state resources ----
+const BOT_RESOURCE_KINDS = ['status', 'inventory', 'equipment', 'chat'] as const;
+type BotResourceKind = typeof BOT_RESOURCE_KINDS[number];
+const BOT_RESOURCE_DESCRIPTIONS: Record<BotResourceKind, string> = {
+  status: 'Health, food, effects, inventory occupancy and environment (same as tool status, without clearing one-shot fields)',
+  inventory: 'Inventory items with slots and occupancy',
+  equipment: 'Main hand, off hand and armor with durability',
+  chat: 'Last 100 chat and system messages'
+};
+
+function botResourceUri(username: string, kind: BotResourceKind): string {
+  return `minecraft://bots/${encodeURIComponent(username)}/${kind}`;
+}
+
+function parseBotResourceUri(uri: string): { username: string; kind: BotResourceKind } | null {
+  const m = /^minecraft:\/\/bots\/([^/]+)\/([a-z]+)$/.exec(uri);
+  if (!m || !(BOT_RESOURCE_KINDS as readonly string[]).includes(m[2])) return null;
+  return { username: decodeURIComponent(m[1]), kind: m[2] as BotResourceKind };
+}
+
+function readBotResourceData(bot: Bot, kind: BotResourceKind) {
+  switch (kind) {
+    case 'status': return getStatus(bot, false);
+    case 'inventory': {
+      const items = bot.inventory.items().map(i => ({ name: i.name, count: i.count, slot: i.slot }));
+      return { items, occupancy: getStatus(bot, false).inventory };
+    }
+    case 'equipment': return getEquippedSummary(bot);
+    case 'chat': return { messages: ensureChatLog(bot) };
+  }
+}
+
+function listResources() {
+  const resources = [...bots.keys()].flatMap(name => BOT_RESOURCE_KINDS.map(kind => ({
+    uri: botResourceUri(name, kind),
+    name: `${name} ${kind}`,
+    description: BOT_RESOURCE_DESCRIPTIONS[kind],
+    mimeType: 'application/json'
+  })));
+  return { resources };
+}
+
+function listResourceTemplates() {
+  const resourceTemplates = BOT_RESOURCE_KINDS.map(kind => ({
+    uriTemplate: `minecraft://bots/{username}/${kind}`,
+    name: `bot ${kind}`,
+    description: BOT_RESOURCE_DESCRIPTIONS[kind],
+    mimeType: 'application/json'
+  }));
+  return { resourceTemplates };
+}
+
+function readResource(req: any) {
+  const uri = String(req?.params?.uri || '');
+  const parsed = parseBotResourceUri(uri);
+  if (!parsed) throw new Error(`Unknown resource '${uri}'`);
+  const bot = bots.get(parsed.username);
+  if (!bot) throw new Error(`Bot '${parsed.username}' not found`);
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(readBotResourceData(bot, parsed.kind)) }] };
+}
+
+// Each connected server registers a sink; updates fan out to sinks subscribed to the URI
+type ResourceSink = { subscriptions: Set<string>; updated(uri: string): void; listChanged(): void };
+const resourceSinks: Set<ResourceSink> = new Set();
+const pendingResourceUpdates: Map<string, NodeJS.Timeout> = new Map();
+
+function notifyResourceUpdated(username: string, kind: BotResourceKind) {
+  const uri = botResourceUri(username, kind);
+  if (pendingResourceUpdates.has(uri)) return;
+  // Coalesce bursts (e.g. many updateSlot events while crafting) into one notification
+  pendingResourceUpdates.set(uri, setTimeout(() => {
+    pendingResourceUpdates.delete(uri);
+    for (const sink of resourceSinks) {
+      if (sink.subscriptions.has(uri)) { try { sink.updated(uri); } catch {} }
+    }
+  }, 250));
+}
+
+function notifyResourceListChanged() {
+  for (const sink of resourceSinks) { try { sink.listChanged(); } catch {} }
+}
+
+// ---- Background jobs ----
+type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+type Job = {
+  id: string;
+  tool: string;
+  bot: string;
+  status: JobStatus;
+  startedAt: number;
+  endedAt?: number;
+  progress: TaskProgress | null;
+  result?: any;
+  error?: string;
+  cancelRequested: boolean;
+  queuePosition?: number;
+  controller: AbortController;
+};
+const jobs: Map<string, Job> = new Map();
+let jobSeq = 0;
+const MAX_FINISHED_JOBS = 50;
+
+function pruneJobs() {
+  const finished = [...jobs.values()].filter(j => j.status !== 'running' && j.status !== 'queued');
+  for (const j of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) jobs.delete(j.id);
+}
+
+function jobSnapshot(job: Job, includeResult = true) {
+  const end = job.endedAt ?? Date.now();
+  return {
+    jobId: job.id,
+    tool: job.tool,
+    bot: job.bot,
+    status: job.status,
+    queuePosition: job.queuePosition,
+    startedAt: job.startedAt,
+    endedAt: job.endedAt,
+    elapsedMs: end - job.startedAt,
+    progress: job.progress,
+    ...(includeResult ? { result: job.result, error: job.error } : {})
+  };
+}
+
+function startJob(tool: ToolDefinition, params: Record<string, unknown>) {
+  const bot = getBotOrThrow(String(params.username || ""));
+  // Fail fast instead of creating a job that would immediately error
+  if (getTask(bot).running && !botConfig(bot).queueTasks) throw new Error('another_task_running');
+  const job: Job = { id: `job-${++jobSeq}`, tool: tool.name, bot: botKey(bot), status: 'running', startedAt: Date.now(), progress: null, cancelRequested: false, controller: new AbortController() };
+  jobs.set(job.id, job);
+  const onQueue = (position: number | null) => {
+    job.queuePosition = position ?? undefined;
+    job.status = position == null ? 'running' : 'queued';
+    if (position == null) job.startedAt = Date.now();
+  };
+  const ctx: TaskContext = { onProgress: (p) => { job.progress = p; }, signal: job.controller.signal, sessionId: taskContext.getStore()?.sessionId, tool: tool.name, jobId: job.id, onQueue, movementProfile: taskContext.getStore()?.movementProfile, args: params };
+  taskContext.run(ctx, () => tool.handler(params))
+    .then((res) => {
+      job.result = res;
+      job.status = job.cancelRequested || res?.cancelled ? 'cancelled' : 'completed';
+    })
+    .catch((e: any) => {
+      job.error = String(e?.message || e);
+      job.status = job.cancelRequested ? 'cancelled' : 'failed';
+    })
+    .finally(() => {
+      job.endedAt = Date.now();
+      job.queuePosition = undefined;
+      pruneJobs();
+    });
+  // `status` on the tool result is the bot status, so the job's state goes under jobStatus
+  return { ok: true, jobId: job.id, tool: tool.name, jobStatus: job.status, queuePosition: job.queuePosition };
+}
+
+async function getJobStatus(params: Record<string, unknown>) {
+  const jobId = String(params.jobId || '');
+  const job = jobs.get(jobId);
+  if (!job) throw new Error(`Job '${jobId}' not found`);
+  return { ok: true, job: jobSnapshot(job) };
+}
+
+async function listJobs(params: Record<string, unknown>) {
+  const botName = params.username ? String(params.username) : undefined;
+  const status = params.status ? String(params.status) : undefined;
+  const list = [...jobs.values()]
+    .filter(j => (!botName || j.bot === botName) && (!status || j.status === status))
+    .map(j => jobSnapshot(j, false));
+  return { ok: true, jobs: list };
+}
+
+async function cancelJob(params: Record<string, unknown>) {
+  const jobId = String(params.jobId || '');
+  const job = jobs.get(jobId);
+  if (!job) throw new Error(`Job '${jobId}' not found`);
+  if (job.status !== 'running' && job.status !== 'queued') return { ok: false, jobId, status: job.status, reason: 'not_running' };
+  job.cancelRequested = true;
+  // The job's own signal aborts it if running, or drops it from the queue if still waiting
+  job.controller.abort();
+  return { ok: true, jobId, status: 'cancelling' };
+}
+
+// Forward task progress as MCP notifications/progress when the client asked for it
+function progressNotifier(req: any, extra: any): ((p: TaskProgress) => void) | undefined {
+  const progressToken = req?.params?._meta?.progressToken;
+  if (progressToken == null || typeof extra?.sendNotification !== 'function') return undefined;
+  let last = -1;
+  return (p: TaskProgress) => {
+    // Spec requires progress to increase with each notification
+    if (p.completed <= last) return;
+    last = p.completed;
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: p.completed, total: p.total, message: `completed ${p.completed}, remaining ${p.remaining}, failed ${p.failed}` }
+    }).catch(() => {});
+  };
+}
+
+// ---- Audit log ----
+// One JSONL record per tool call, for debugging agent runs and building datasets
+type AuditConfig = { dir: string; maxBytes: number; maxFiles: number };
+let auditConfig: AuditConfig | null = null;
+let auditBytes = -1;
+let auditQueue: Promise<void> = Promise.resolve();
+const AUDIT_FILE = 'audit.jsonl';
+const AUDIT_REDACT = new Set(['password']);
+
+function configureAudit(cfg: Partial<AuditConfig> | undefined) {
+  if (!cfg?.dir) { auditConfig = null; return; }
+  auditConfig = {
+    dir: String(cfg.dir),
+    maxBytes: Math.max(1024, Number(cfg.maxBytes ?? 10 * 1024 * 1024)),
+    maxFiles: Math.max(1, Number(cfg.maxFiles ?? 5))
+  };
+  auditBytes = -1;
+  log(`audit log enabled in ${auditConfig.dir}`);
+}
+
+function redactArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(args || {})) out[k] = AUDIT_REDACT.has(k) ? '***' : v;
+  return out;
+}
+
+// audit.jsonl -> audit.1.jsonl -> ... -> audit.<maxFiles>.jsonl (oldest dropped)
+async function rotateAuditFiles(cfg: AuditConfig) {
+  const fs = await import('node:fs/promises');
+  const path = await import('node:path');
+  const nth = (n: number) => path.join(cfg.dir, n === 0 ? AUDIT_FILE : `audit.${n}.jsonl`);
+  try { await fs.rm(nth(cfg.maxFiles), { force: true }); } catch {}
+  for (let n = cfg.maxFiles - 1; n >= 0; n--) {
+    try { await fs.rename(nth(n), nth(n + 1)); } catch {}
+  }
+  auditBytes = 0;
+}
+
+function writeAuditRecord(record: Record<string, unknown>) {
+  const cfg = auditConfig;
+  if (!cfg) return;
+  let line: string;
+  try { line = JSON.stringify(record) + '\n'; } catch (e: any) { line = JSON.stringify({ ...record, result: undefined, error: `unserializable_result: ${e?.message || e}` }) + '\n'; }
+  // Appends are chained so records never interleave and rotation sees a settled size
+  auditQueue = auditQueue.then(async () => {
+    try {
+      const fs = await import('node:fs/promises');
+      const path = await import('node:path');
+      const file = path.join(cfg.dir, AUDIT_FILE);
+      if (auditBytes < 0) {
+        await fs.mkdir(cfg.dir, { recursive: true });
+        auditBytes = await fs.stat(file).then(s => s.size, () => 0);
+      }
+      if (auditBytes > 0 && auditBytes + Buffer.byteLength(line) > cfg.maxBytes) await rotateAuditFiles(cfg);
+      await fs.appendFile(file, line, 'utf8');
+      auditBytes += Buffer.byteLength(line);
+    } catch (e) {
+      log('audit write failed', e as any);
+    }
+  });
 }
 
-async function sendToolCall(req: any): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+async function sendToolCall(req: any, extra?: any): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const startedAt = Date.now();
+  const name = String((req as any)?.params?.name ?? '');
+  const args = ((req as any)?.params?.arguments as any) ?? {};
+  const trace: { statusBefore: any } = { statusBefore: null };
+  const payload = await runToolCall(name, args, req, extra, trace);
+  const endedAt = Date.now();
+  writeAuditRecord({
+    tool: name,
+    args: redactArgs(args),
+    bot: payload.bot ?? (args.username || undefined),
+    session: extra?.sessionId,
+    startedAt: new Date(startedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    durationMs: endedAt - startedAt,
+    ok: payload.ok !== false,
+    error: payload.ok === false ? (payload.error ?? payload.reason ?? 'failed') : undefined,
+    result: payload,
+    statusBefore: trace.statusBefore,
+    status: payload.status ?? null,
+    delta: payload.delta
+  });
+  return { content: [{ type: "text", text: JSON.stringify(payload) }] };
+}
+
+// The bot a tool without `username` will act on, so its status can be attached too
+function defaultBotName(tool: ToolDefinition, sessionId?: string): string {
+  if (!tool.inputSchema.properties?.username) return '';
+  try { return taskContext.run({ sessionId }, () => botKey(getBotOrThrow())); } catch { return ''; }
+}
+
+async function runToolCall(name: string, args: any, req: any, extra: any, trace: { statusBefore: any }): Promise<any> {
   let action: any = null;
   try {
-    const name = (req as any).params.name as string;
-    const args = ((req as any).params.arguments as any) ?? {};
-    const botName = String(args.username || '');
+    const tool = toolRegistry.get(name);
+    if (!tool) {
+      return { ok: false, error: "unknown_tool", tool: name };
+    }
+    args = resolveArgAliases(tool, args);
+    const botName = String(args.username || '') || defaultBotName(tool, extra?.sessionId);
+    const issues = validateToolArgs(tool, args);
+    if (issues.length) {
+      return { ok: false, error: "invalid_arguments", tool: name, issues };
+    }
+    const denial = checkToolPolicy(name, args);
+    if (denial) return denial;
+    const movementProfile = args.movementProfile == null ? undefined : String(args.movementProfile);
+    if (movementProfile && !movementProfiles()[movementProfile]) {
+      return { ok: false, error: 'unknown_movement_profile', movementProfile, available: Object.keys(movementProfiles()) };
+    }
     let statusBefore: any = null;
     try {
       const b = botName ? bots.get(botName) : undefined;
-      statusBefore = b ? getStatus(b) : null;
+      statusBefore = b ? getStatus(b, !tool.peek) : null;
     } catch {}
-    switch (name) {
-      case "joinGame": action = await joinGame(args); break;
-      case "leaveGame": action = await leaveGame(args); break;
-      case "goToSomeone": action = await goToSomeone(args); break;
-      case "goToKnownLocation": action = await goToKnownLocation(args); break;
-      case "sendChat": action = await sendChat(args); break;
-      case "readChat": action = await readChat(args); break;
-      case "attackSomeone": action = await attackSomeone(args); break;
-      case "openInventory": action = await openInventory(args); break;
-      case "equipItem": action = await equipItem(args); break;
-      case "dropItem": action = await dropItem(args); break;
-      case "giveItemToSomeone": action = await giveItemToSomeone(args); break;
-      case "lookAround": action = await lookAround(args); break;
-      case "eatFood": action = await eatFood(args); break;
-      case "getPosition": action = await getPosition(args); break;
-      case "lookAt": action = await lookAt(args); break;
-      case "jump": action = await jump(args); break;
-      case "moveInDirection": action = await moveInDirection(args); break;
-      case "followPlayer": action = await followPlayer(args); break;
-      case "stopFollow": action = await stopFollow(args); break;
-      case "runAway": action = await runAway(args); break;
-      case "swimToLand": action = await swimToLand(args); break;
-      case "hunt": action = await hunt(args); break;
-      case "mineResource": action = await mineResource(args); break;
-      case "harvestMatureCrops": action = await harvestMatureCrops(args); break;
-      case "pickupItem": action = await pickupItem(args); break;
-      case "pickupLootWithinRadius": action = await pickupLootWithinRadius(args); break;
-      case "craftItems": action = await craftItems(args); break;
-      case "listRecipes": action = await listRecipes(args); break;
-      case "listAllRecipes": action = await listAllRecipes(args); break;
-      case "cookItem": action = await cookItem(args); break;
-      case "smeltItem": action = await smeltItem(args); break;
-      case "cookWithSmoker": action = await cookWithSmoker(args); break;
-      case "smeltWithBlastFurnace": action = await smeltWithBlastFurnace(args); break;
-      case "cookWithCampfire": action = await cookWithCampfire(args); break;
-      case "retrieveItemsFromNearbyFurnace": action = await retrieveItemsFromNearbyFurnace(args); break;
-      case "placeItemNearYou": action = await placeItemNearYou(args); break;
-      case "prepareLandForFarming": action = await prepareLandForFarming(args); break;
-      case "useItemOnBlockOrEntity": action = await useItemOnBlockOrEntity(args); break;
-      case "rest": action = await rest(args); break;
-      case "sleepInNearbyBed": action = await sleepInNearbyBed(args); break;
-      case "openNearbyChest": action = await openNearbyChest(args); break;
-      case "dance": action = await dance(args); break;
-      case "buildSomething": action = await buildSomething(args); break;
-      case "goToSurface": action = await goToSurface(args); break;
-      case "depositItemsToNearbyChest": action = await depositItemsToNearbyChest(args); break;
-      case "withdrawItemsFromNearbyChest": action = await withdrawItemsFromNearbyChest(args); break;
-      case "digBlock": action = await digBlock(args); break;
-      case "placeBlockAt": action = await placeBlockAt(args); break;
-      case "listInventory": action = await listInventory(args); break;
-      case "detectGamemode": action = await detectGamemode(args); break;
-      case "findBlock": action = await findBlock(args); break;
-      case "findEntity": action = await findEntity(args); break;
-      case "scanArea": action = await scanArea(args); break;
-      case "returnToLastDeathLocation": action = await returnToLastDeathLocation(args); break;
-      case "plantSeedsWithinRadius": action = await plantSeedsWithinRadius(args); break;
-      case "gatherSeeds": action = await gatherSeeds(args); break;
-      case "stopAttack": action = await stopAttack(args); break;
-      case "stopAllTasks": action = await stopAllTasks(args); break;
-      // selfDefense removed
-
-      default:
-        return { content: [{ type: "text", text: JSON.stringify({ ok: false, error: "Unknown tool" }) }] };
-    }
+    trace.statusBefore = statusBefore;
+    const { background, ...toolArgs } = args;
+    if (background === true && tool.background) action = taskContext.run({ sessionId: extra?.sessionId, movementProfile }, () => startJob(tool, toolArgs));
+    else action = await taskContext.run({ onProgress: progressNotifier(req, extra), signal: extra?.signal, sessionId: extra?.sessionId, tool: name, movementProfile, args: toolArgs }, () => tool.handler(toolArgs));
     // attach status and deltas
     try {
       const b = botName ? bots.get(botName) : undefined;
-      const after = b ? getStatus(b) : null;
+      const after = b ? getStatus(b, !tool.peek) : null;
       const delta = after && statusBefore ? {
         healthDelta: after.health - statusBefore.health,
         foodDelta: after.food - statusBefore.food,
         lastDamage: after.lastDamage
       } : undefined;
-      return { content: [{ type: "text", text: JSON.stringify({ ...(action || { ok: true }), bot: botName || undefined, status: after, delta }) }] };
+      return { ...(action || { ok: true }), bot: botName || undefined, status: after, delta };
     } catch {
-      return { content: [{ type: "text", text: JSON.stringify({ ...(action || { ok: true }), bot: botName || undefined }) }] };
+      return { ...(action || { ok: true }), bot: botName || undefined };
     }
   } catch (e: any) {
-    return { content: [{ type: "text", text: JSON.stringify({ ok: false, error: String(e?.message || e) }) }] };
+    return { ok: false, error: String(e?.message || e) };
   }
 }
 
+const toolDefinitions: ToolDefinition[] = [
+  { name: "joinGame", description: "Spawn a new bot into the Minecraft game (offline or Microsoft auth; failures return a structured reason)", inputSchema: { type: "object", properties: { username: { type: "string", description: "Bot name; for Microsoft auth the account email" }, host: { type: "string" }, port: { type: "number" }, auth: { type: "string", enum: ["offline","microsoft"] }, profile: { type: "string", description: "Named profile from the config file supplying join defaults and settings" }, reconnect: { type: ["boolean","object"], description: "Opt-in automatic reconnect with exponential backoff after kick/disconnect", properties: { maxAttempts: { type: "number" }, initialDelayMs: { type: "number" }, maxDelayMs: { type: "number" } } }, profilesFolder: { type: "string", description: "Directory for cached Microsoft tokens" }, password: { type: "string" }, version: { type: "string", description: "Protocol version such as 1.20.4; auto-detected when omitted" }, viewDistance: { type: ["string","number"], description: "far | normal | short | tiny, or chunk count" }, skipValidation: { type: "boolean" } }, required: ["username"] }, handler: joinGame },
+  { name: "leaveGame", description: "Disconnect bot(s) from the game", inputSchema: { type: "object", properties: { username: { type: "string" }, disconnectAll: { type: "boolean" } } }, handler: leaveGame },
+  { name: "listBots", description: "List all bots with server, connection state, ping, current task and position", inputSchema: { type: "object", properties: {} }, handler: listBots },
+  { name: "getStatus", description: "Read a bot's status (health, food, connection, ping, environment) without side effects", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: getBotStatus, peek: true },
+  { name: "joinMany", description: "Spawn several bots from a name template with staggered connects", inputSchema: { type: "object", properties: { template: { type: "string", description: "Username template; {n} is replaced by the bot number (appended when absent)" }, count: { type: "number" }, start: { type: "number", description: "First number (default 1)" }, staggerMs: { type: "number", description: "Delay between connects (default 2000)" }, host: { type: "string" }, port: { type: "number" }, profile: { type: "string" }, reconnect: { type: ["boolean","object"], properties: { maxAttempts: { type: "number" }, initialDelayMs: { type: "number" }, maxDelayMs: { type: "number" } } }, version: { type: "string" }, viewDistance: { type: ["string","number"] }, skipValidation: { type: "boolean" } }, required: ["template", "count"] }, handler: joinMany },
+  { name: "goToSomeone", description: "Navigate to another player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, distance: { type: "number" } }, required: ["userName"] }, handler: goToSomeone },
+  { name: "goToKnownLocation", description: "Navigate to specific coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, range: { type: "number" }, maxMs: { type: "number" }, viaNether: { type: "boolean", description: "Overworld target: travel through the nether at 1:8 scale using a portal near the bot and one near x/8,z/8" }, portalSearchRadius: { type: "number", description: "With viaNether: how far to look for each portal (default 64)" } }, required: ["x", "y", "z"] }, handler: goToKnownLocation },
+  { name: "mountNearest", description: "Walk to and mount the nearest boat, minecart or rideable animal (horses need a saddle and taming, pigs and striders a saddle)", inputSchema: { type: "object", properties: { username: { type: "string" }, kind: { type: "string", enum: ["boat","minecart","animal"] }, entityName: { type: "string", description: "e.g. horse, oak_boat, pig" }, maxDistance: { type: "number" } } }, handler: mountNearest },
+  { name: "dismount", description: "Get off the current vehicle", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: dismount },
+  { name: "rideVehicleTo", description: "Steer the ridden vehicle: boats along water routes and animals over land to x,z; minecarts ride the rails to the end of the line (or until within range of x,z)", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, z: { type: "number" }, range: { type: "number" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } } }, handler: rideVehicleTo, background: true },
+  { name: "queryWorldMemory", description: "Nearest remembered ores, chests, workstations, beds, spawners and portals, including ones outside render distance", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string", description: "Block name or part of one, e.g. diamond_ore or diamond" }, category: { type: "string", enum: ["ore","storage","workstation","bed","spawner","portal"] }, maxResults: { type: "number" }, maxDistance: { type: "number" }, dimension: { type: "string", description: "Another dimension's memory (distances are omitted)" } } }, handler: queryWorldMemory, peek: true },
+  { name: "travelToDimension", description: "Walk into a nearby portal (nether or end) and confirm the dimension changed", inputSchema: { type: "object", properties: { username: { type: "string" }, dimension: { type: "string", enum: ["overworld","the_nether","the_end","nether","end"] }, searchRadius: { type: "number", description: "How far to look for a portal (default 64)" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } }, required: ["dimension"] }, handler: travelToDimension, background: true },
+  { name: "planPath", description: "Dry-run the pathfinder to x,y,z without moving: reachability, length, estimated time, blocks to break/place, hazards (lava, big drops, water) and compact waypoints", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, range: { type: "number" }, maxDropDown: { type: "number", description: "Report drops deeper than this as hazards (default: the movement profile's maxDropDown)" }, timeoutMs: { type: "number", description: "Path computation budget (default 5000)" } }, required: ["x","y","z"] }, handler: planPath },
+  { name: "setWaypoint", description: "Save a named waypoint (current position or x,y,z) for this server and dimension; persisted to disk", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, shared: { type: "boolean", description: "Visible to every bot on the server instead of only this one" }, note: { type: "string" } }, required: ["name"] }, handler: setWaypoint },
+  { name: "listWaypoints", description: "List waypoints visible to the bot (own and shared), nearest first, including auto-waypoints for spawn, bed, chests and crafting tables", inputSchema: { type: "object", properties: { username: { type: "string" }, dimension: { type: "string", description: "Dimension to list, or 'all'; defaults to the bot's current one" } } }, handler: listWaypoints },
+  { name: "deleteWaypoint", description: "Delete one of the bot's waypoints, or a shared one with shared: true", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, shared: { type: "boolean" }, dimension: { type: "string" } }, required: ["name"] }, handler: deleteWaypoint },
+  { name: "goToWaypoint", description: "Navigate to a named waypoint in the current dimension", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, range: { type: "number" }, maxMs: { type: "number" } }, required: ["name"] }, handler: goToWaypoint },
+  { name: "attackSomeone", description: "Attack players, mobs, or animals", inputSchema: { type: "object", properties: { username: { type: "string" }, targetType: { type: "string" }, targetName: { type: "string" }, duration: { type: "number" }, maxMs: { type: "number" } } }, handler: attackSomeone },
+  { name: "openInventory", description: "Open the bot's inventory", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: openInventory },
+  { name: "equipItem", description: "Equip armor, tools, or weapons", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, itemName: argAlias("name"), destination: { type: "string", enum: ["hand","off-hand","head","torso","legs","feet"] } }, required: ["name"] }, handler: equipItem },
+  { name: "dropItem", description: "Drop items from inventory", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, count: { type: "number" } }, required: ["name"] }, handler: dropItem },
+  { name: "giveItemToSomeone", description: "Give items to another player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, itemName: { type: "string" }, itemCount: { type: "number" } }, required: ["userName", "itemName"] }, handler: giveItemToSomeone },
+  { name: "lookAround", description: "Raycast the bot's field of view (or a yaw/pitch cone) and report the blocks and entities it can actually see, with distance and direction, plus the block under the crosshair; walls hide what is behind them", inputSchema: { type: "object", properties: { username: { type: "string" }, yaw: { type: "number", description: "Degrees; 0 north, 90 west, 180 south, 270 east (default: where the bot faces)" }, pitch: { type: "number", description: "Degrees; positive looks up (default: current pitch)" }, fov: { type: "number", description: "Width and height of the view cone in degrees (default 90)" }, range: { type: "number", description: "Default 32, max 64" }, resolution: { type: "number", description: "Degrees between rays (default 2)" } } }, handler: lookAround, peek: true },
+  { name: "sendChat", description: "Send chat messages or commands to the server", inputSchema: { type: "object", properties: { username: { type: "string" }, message: { type: "string" } }, required: ["message"] }, handler: sendChat },
+  { name: "readChat", description: "Read recent chat messages from the server", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" } } }, handler: readChat },
+  { name: "waitForEvent", description: "Wait until a matching event happens (chat, damage, death, player join/leave, entity nearby, block change, dusk) or the timeout passes. Events are buffered between calls so none are missed", inputSchema: { type: "object", properties: { username: { type: "string" }, event: { type: "string", enum: ["chat","hurt","death","playerJoined","playerLeft","entityNear","blockChange","dusk"] }, pattern: { type: "string", description: "chat: case-insensitive regex on the message" }, from: { type: "string", description: "chat: sender username" }, player: { type: "string", description: "playerJoined/playerLeft: username" }, radius: { type: "number", description: "entityNear: blocks (default 8)" }, entityName: { type: "string" }, entityType: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, timeoutMs: { type: "number" }, sinceSeq: { type: "number", description: "Only return buffered events after this sequence number (defaults to the last one returned for this event type)" } }, required: ["event"] }, handler: waitForEvent },
+  { name: "eatFood", description: "Eat food to restore hunger", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: eatFood },
+  { name: "getPosition", description: "Get the current position of the bot", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: getPosition },
+  { name: "lookAt", description: "Make the bot look at specific coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["x","y","z"] }, handler: lookAt },
+  { name: "jump", description: "Make the bot jump for a duration (ms)", inputSchema: { type: "object", properties: { username: { type: "string" }, duration: { type: "number" } } }, handler: jump },
+  { name: "moveInDirection", description: "Move in a direction for duration (ms)", inputSchema: { type: "object", properties: { username: { type: "string" }, direction: { type: "string", enum: ["forward","back","left","right","sprint","sneak"] }, durationMs: { type: "number" } }, required: ["direction"] }, handler: moveInDirection },
+  { name: "followPlayer", description: "Follow the nearest or specified player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, distance: { type: "number" } } }, handler: followPlayer },
+  { name: "stopFollow", description: "Stop following", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: stopFollow },
+  { name: "runAway", description: "Run away from threats", inputSchema: { type: "object", properties: { username: { type: "string" }, distance: { type: "number" } } }, handler: runAway },
+  { name: "swimToLand", description: "Swim to nearest land when in water", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: swimToLand },
+  { name: "hunt", description: "Hunt animals or mobs until count reached (kills). Runs as the bot's task: fails with another_task_running while another task runs, unless queueTasks is on", inputSchema: { type: "object", properties: { username: { type: "string" }, targetName: { type: "string" }, targetType: { type: "string" }, count: { type: "number" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } } }, handler: hunt, background: true },
+  { name: "mineResource", description: "Mine specific blocks or resources", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string" }, resource: argAlias("blockName"), count: { type: "number" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } }, required: ["blockName"] }, handler: mineResource, background: true },
+  { name: "harvestMatureCrops", description: "Harvest mature crops from farmland with progress timeouts", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" }, maxMs: { type: "number" }, stallMs: { type: "number" } } }, handler: harvestMatureCrops },
+  { name: "pickupItem", description: "Pick up items from the ground", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, maxMs: { type: "number" } } }, handler: pickupItem },
+  { name: "pickupLootWithinRadius", description: "Pick up all dropped items within a radius", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" }, maxMs: { type: "number" } } }, handler: pickupLootWithinRadius },
+  { name: "craftItems", description: "Craft items using a crafting table", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName"), count: { type: "number" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } }, required: ["itemName"] }, handler: craftItems, background: true },
+  { name: "listRecipes", description: "List recipes for an item and how many are craftable with current inventory", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName") }, required: ["itemName"] }, handler: listRecipes },
+  { name: "listAllRecipes", description: "List many recipes across items; filter by search, requiresTable, craftableOnly, limit", inputSchema: { type: "object", properties: { username: { type: "string" }, search: { type: "string" }, requiresTable: { type: "boolean" }, craftableOnly: { type: "boolean" }, limit: { type: "number" } } }, handler: listAllRecipes },
+  { name: "cookItem", description: "Cook items (furnace/smoker/campfire; campfire ignores count)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" }, count: { type: "number" }, preferDevice: { type: "string", enum: ["furnace","smoker","blast_furnace","campfire"] } }, required: ["itemName"] }, handler: cookItem },
+  { name: "smeltItem", description: "Smelt items (blast_furnace/furnace with fallback)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" }, count: { type: "number" }, preferDevice: { type: "string", enum: ["furnace","smoker","blast_furnace","campfire"] }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } }, required: ["itemName"] }, handler: smeltItem, background: true },
+  { name: "cookWithSmoker", description: "Cook items in a smoker (optimized for food)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" } }, required: ["itemName"] }, handler: cookWithSmoker },
+  { name: "smeltWithBlastFurnace", description: "Smelt items in a blast furnace (optimized for ores)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" } }, required: ["itemName"] }, handler: smeltWithBlastFurnace },
+  { name: "cookWithCampfire", description: "Cook items on a campfire (no fuel, slower)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" } }, required: ["itemName"] }, handler: cookWithCampfire },
+  { name: "retrieveItemsFromNearbyFurnace", description: "Get smelted items from furnace", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: retrieveItemsFromNearbyFurnace },
+  { name: "placeItemNearYou", description: "Place blocks near the bot", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName") }, required: ["itemName"] }, handler: placeItemNearYou },
+  { name: "prepareLandForFarming", description: "Prepare land for farming (till near water; clears plants)", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" }, requireWater: { type: "boolean" }, waterRadius: { type: "number" } } }, handler: prepareLandForFarming },
+  { name: "useItemOnBlockOrEntity", description: "Use items on blocks or entities", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, userName: { type: "string" } } }, handler: useItemOnBlockOrEntity },
+  { name: "rest", description: "Rest to regain health (wait)", inputSchema: { type: "object", properties: { username: { type: "string" }, ms: { type: "number" } } }, handler: rest },
+  { name: "sleepInNearbyBed", description: "Find and sleep in a bed; if daytime, set spawn on the bed", inputSchema: { type: "object", properties: { username: { type: "string" }, setSpawnIfDay: { type: "boolean" } } }, handler: sleepInNearbyBed },
+  { name: "openNearbyChest", description: "Open a nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: openNearbyChest },
+  { name: "dance", description: "Make the bot dance", inputSchema: { type: "object", properties: { username: { type: "string" }, durationMs: { type: "number" } } }, handler: dance },
+  { name: "buildSomething", description: "Build structures using commands (creative) or survival placement", inputSchema: { type: "object", properties: { username: { type: "string" }, mode: { type: "string", enum: ["commands","survival"] }, commands: { type: "array", items: { type: "string" } }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, itemName: { type: "string" } } }, handler: buildSomething },
+  { name: "depositItemsToNearbyChest", description: "Deposit items to nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName"), count: { type: "number" } }, required: ["itemName"] }, handler: depositItemsToNearbyChest },
+  { name: "withdrawItemsFromNearbyChest", description: "Withdraw items from nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName"), count: { type: "number" } }, required: ["itemName"] }, handler: withdrawItemsFromNearbyChest },
+  { name: "digBlock", description: "Dig a block at coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["x","y","z"] }, handler: digBlock },
+  { name: "placeBlockAt", description: "Place a block at coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, name: argAlias("itemName"), x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["itemName","x","y","z"] }, handler: placeBlockAt },
+  { name: "listInventory", description: "List inventory items", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: listInventory },
+  { name: "detectGamemode", description: "Detect current game mode", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: detectGamemode },
+  { name: "goToSurface", description: "Move to the nearest surface above the bot", inputSchema: { type: "object", properties: { username: { type: "string" }, maxMs: { type: "number" } } }, handler: goToSurface },
+  { name: "findBlock", description: "Find nearest block of a type", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string" }, name: argAlias("blockName") }, required: ["blockName"] }, handler: findBlock },
+  { name: "findEntity", description: "Find nearest entity of a type", inputSchema: { type: "object", properties: { username: { type: "string" }, targetName: { type: "string" }, type: { type: "string" } } }, handler: findEntity },
+  { name: "explore", description: "Explore unvisited chunks until a block or entity is found, or a distance/time budget runs out; reports what was discovered on the way", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string", description: "Stop when this block (or alias such as log) is within searchRadius" }, entityName: { type: "string", description: "Stop when an entity with this name is within searchRadius" }, entityType: { type: "string" }, searchRadius: { type: "number", description: "Default 32" }, maxDistance: { type: "number", description: "Blocks to walk in total; also bounds how far from the start frontiers are picked (default 512)" }, maxMs: { type: "number", description: "Default 180000" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } } }, handler: explore, background: true },
+  { name: "renderMap", description: "Text map around the bot: top-down view with legend (water, trees, ores, chests, players, hostiles, your heading), a slice at one Y level, or a relative heightmap", inputSchema: { type: "object", properties: { username: { type: "string" }, mode: { type: "string", enum: ["top","slice","height"] }, radius: { type: "number", description: "Blocks in each direction (default 12, max 32)" }, y: { type: "number", description: "Slice level (default: feet)" } } }, handler: renderMap, peek: true },
+  { name: "scanArea", description: "Scan blocks/entities within radius with counts and sample coordinates; includes dropped items", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" } } }, handler: scanArea },
+  { name: "returnToLastDeathLocation", description: "Return to recorded death position and collect drops nearby", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: returnToLastDeathLocation },
+  { name: "plantSeedsWithinRadius", description: "Plant seeds on nearby farmland within radius", inputSchema: { type: "object", properties: { username: { type: "string" }, seedName: { type: "string" }, radius: { type: "number" } } }, handler: plantSeedsWithinRadius },
+  { name: "gatherSeeds", description: "Break grass to collect wheat_seeds until count reached. Runs as the bot's task: fails with another_task_running while another task runs, unless queueTasks is on", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" }, radius: { type: "number" }, maxMs: { type: "number" }, background: { type: "boolean", description: "Run as a background job; returns a jobId immediately" } } }, handler: gatherSeeds, background: true },
+  { name: "stopAttack", description: "Stop current attack", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: stopAttack },
+  { name: "stopAllTasks", description: "Stop pathing, combat and the current long-running task", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: stopAllTasks },
+  { name: "getJobStatus", description: "Get status, progress counters and result of a background job", inputSchema: { type: "object", properties: { username: { type: "string" }, jobId: { type: "string" } }, required: ["jobId"] }, handler: getJobStatus },
+  { name: "listJobs", description: "List background jobs, optionally filtered by bot or status", inputSchema: { type: "object", properties: { username: { type: "string" }, status: { type: "string", enum: ["queued","running","completed","failed","cancelled"] } } }, handler: listJobs },
+  { name: "cancelJob", description: "Cancel a running background job", inputSchema: { type: "object", properties: { username: { type: "string" }, jobId: { type: "string" } }, required: ["jobId"] }, handler: cancelJob },
+  { name: "listQueue", description: "Show the running task and queued tasks for a bot", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: listQueue },
+  { name: "clearQueue", description: "Drop all queued (not yet running) tasks for a bot", inputSchema: { type: "object", properties: { username: { type: "string" } } }, handler: clearQueue },
+  { name: "moveQueuedTask", description: "Reprioritise a queued task (by taskId or jobId) to a new 1-based queue position", inputSchema: { type: "object", properties: { username: { type: "string" }, taskId: { type: "string" }, position: { type: "number", description: "1 = run next" } }, required: ["taskId"] }, handler: moveQueuedTask },
+  { name: "getConfig", description: "Show server config: defaults and profiles, one profile, or a bot's effective settings", inputSchema: { type: "object", properties: { username: { type: "string" }, profile: { type: "string" } } }, handler: getConfig },
+  { name: "setConfig", description: "Change settings at runtime for a bot, a profile, or the server defaults (null resets a key)", inputSchema: { type: "object", properties: { username: { type: "string" }, profile: { type: "string" }, settings: BOT_CONFIG_SCHEMA }, required: ["settings"] }, handler: setConfig },
+  { name: "isPositionSafe", description: "Check a position (default: the bot's) against the pathing hazard model: lava or fire nearby, magma, powder snow, cliff edges and hostile mobs", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number", description: "Feet level" }, z: { type: "number" }, hostileRadius: { type: "number", description: "Defaults to the hostileAvoidRadius setting" } } }, handler: isPositionSafe, peek: true },
+  { name: "setMovementProfile", description: "Set the bot's default movement profile (default, cautious, builder, no_grief, fast or one from the config file)", inputSchema: { type: "object", properties: { username: { type: "string" }, profile: { type: "string" } }, required: ["profile"] }, handler: setMovementProfile }
+];
+
+// Tools that move the bot accept a per-call movementProfile
+const NAVIGATING_TOOLS = new Set([
+  'goToKnownLocation', 'travelToDimension', 'mountNearest', 'goToSomeone', 'goToWaypoint', 'goToSurface', 'followPlayer', 'runAway', 'swimToLand', 'returnToLastDeathLocation', 'planPath', 'explore',
+  'mineResource', 'harvestMatureCrops', 'gatherSeeds', 'pickupItem', 'pickupLootWithinRadius', 'plantSeedsWithinRadius', 'prepareLandForFarming',
+  'craftItems', 'placeBlockAt', 'placeItemNearYou', 'buildSomething',
+  'openNearbyChest', 'depositItemsToNearbyChest', 'withdrawItemsFromNearbyChest', 'sleepInNearbyBed', 'smeltItem', 'cookWithCampfire'
+]);
+for (const tool of toolDefinitions) {
+  if (!NAVIGATING_TOOLS.has(tool.name)) continue;
+  tool.inputSchema.properties = { ...tool.inputSchema.properties, movementProfile: { type: "string", description: "Movement profile for this call only; see setMovementProfile" } };
+}
+
+const toolRegistry: Map<string, ToolDefinition> = new Map(toolDefinitions.map(t => [t.name, t]));
+
 function listTools() {
-  const tools = [
-    { name: "joinGame", description: "Spawn a new bot into the Minecraft game", inputSchema: { type: "object", properties: { username: { type: "string" }, host: { type: "string" }, port: { type: "number" } }, required: ["username"] } },
-    { name: "leaveGame", description: "Disconnect bot(s) from the game", inputSchema: { type: "object", properties: { username: { type: "string" }, disconnectAll: { type: "boolean" } } } },
-    { name: "goToSomeone", description: "Navigate to another player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, distance: { type: "number" } }, required: ["userName"] } },
-    { name: "goToKnownLocation", description: "Navigate to specific coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, range: { type: "number" } }, required: ["x", "y", "z"] } },
-    { name: "attackSomeone", description: "Attack players, mobs, or animals", inputSchema: { type: "object", properties: { username: { type: "string" }, targetType: { type: "string" }, targetName: { type: "string" }, duration: { type: "number" } } } },
-    { name: "openInventory", description: "Open the bot's inventory", inputSchema: { type: "object", properties: { username: { type: "string" } } } },
-    { name: "equipItem", description: "Equip armor, tools, or weapons", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, destination: { type: "string", enum: ["hand","off-hand","head","torso","legs","feet"] } }, required: ["name"] } },
-    { name: "dropItem", description: "Drop items from inventory", inputSchema: { type: "object", properties: { username: { type: "string" }, name: { type: "string" }, count: { type: "number" } }, required: ["name"] } },
-    { name: "giveItemToSomeone", description: "Give items to another player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, itemName: { type: "string" }, itemCount: { type: "number" } }, required: ["userName", "itemName"] } },
-    { name: "lookAround", description: "Look around and observe the environment", inputSchema: { type: "object", properties: { username: { type: "string" }, yaw: { type: "number" }, pitch: { type: "number" } } } },
-    { name: "sendChat", description: "Send chat messages or commands to the server", inputSchema: { type: "object", properties: { username: { type: "string" }, message: { type: "string" } }, required: ["message"] } },
-    { name: "readChat", description: "Read recent chat messages from the server", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" } } } },
-    { name: "eatFood", description: "Eat food to restore hunger", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "getPosition", description: "Get the current position of the bot", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "lookAt", description: "Make the bot look at specific coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["x","y","z"] } }
-    ,{ name: "jump", description: "Make the bot jump for a duration (ms)", inputSchema: { type: "object", properties: { username: { type: "string" }, duration: { type: "number" } } } }
-    ,{ name: "moveInDirection", description: "Move in a direction for duration (ms)", inputSchema: { type: "object", properties: { username: { type: "string" }, direction: { type: "string", enum: ["forward","back","left","right","sprint","sneak"] }, durationMs: { type: "number" } }, required: ["direction"] } }
-    ,{ name: "followPlayer", description: "Follow the nearest or specified player", inputSchema: { type: "object", properties: { username: { type: "string" }, userName: { type: "string" }, distance: { type: "number" } } } }
-    ,{ name: "stopFollow", description: "Stop following", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "runAway", description: "Run away from threats", inputSchema: { type: "object", properties: { username: { type: "string" }, distance: { type: "number" } } } }
-    ,{ name: "swimToLand", description: "Swim to nearest land when in water", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "hunt", description: "Hunt animals or mobs until count reached (kills)", inputSchema: { type: "object", properties: { username: { type: "string" }, targetName: { type: "string" }, targetType: { type: "string" }, count: { type: "number" }, maxMs: { type: "number" } } } }
-    ,{ name: "mineResource", description: "Mine specific blocks or resources", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string" }, count: { type: "number" } }, required: ["blockName"] } }
-    ,{ name: "harvestMatureCrops", description: "Harvest mature crops from farmland with progress timeouts", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" }, maxMs: { type: "number" } } } }
-    ,{ name: "pickupItem", description: "Pick up items from the ground", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" } } } }
-    ,{ name: "pickupLootWithinRadius", description: "Pick up all dropped items within a radius", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" }, maxMs: { type: "number" } } } }
-    ,{ name: "craftItems", description: "Craft items using a crafting table", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, count: { type: "number" } }, required: ["itemName"] } }
-    ,{ name: "listRecipes", description: "List recipes for an item and how many are craftable with current inventory", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" } }, required: ["itemName"] } }
-    ,{ name: "listAllRecipes", description: "List many recipes across items; filter by search, requiresTable, craftableOnly, limit", inputSchema: { type: "object", properties: { username: { type: "string" }, search: { type: "string" }, requiresTable: { type: "boolean" }, craftableOnly: { type: "boolean" }, limit: { type: "number" } } } }
-    ,{ name: "cookItem", description: "Cook items (furnace/smoker/campfire; campfire ignores count)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" }, count: { type: "number" }, preferDevice: { type: "string", enum: ["furnace","smoker","blast_furnace","campfire"] } }, required: ["itemName"] } }
-    ,{ name: "smeltItem", description: "Smelt items (blast_furnace/furnace with fallback)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" }, count: { type: "number" }, preferDevice: { type: "string", enum: ["furnace","smoker","blast_furnace","campfire"] } }, required: ["itemName"] } }
-    ,{ name: "cookWithSmoker", description: "Cook items in a smoker (optimized for food)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" } }, required: ["itemName"] } }
-    ,{ name: "smeltWithBlastFurnace", description: "Smelt items in a blast furnace (optimized for ores)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, fuelName: { type: "string" } }, required: ["itemName"] } }
-    ,{ name: "cookWithCampfire", description: "Cook items on a campfire (no fuel, slower)", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" } }, required: ["itemName"] } }
-    ,{ name: "retrieveItemsFromNearbyFurnace", description: "Get smelted items from furnace", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "placeItemNearYou", description: "Place blocks near the bot", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" } }, required: ["itemName"] } }
-    ,{ name: "prepareLandForFarming", description: "Prepare land for farming (till near water; clears plants)", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" }, requireWater: { type: "boolean" }, waterRadius: { type: "number" } } } }
-    ,{ name: "useItemOnBlockOrEntity", description: "Use items on blocks or entities", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, userName: { type: "string" } } } }
-    ,{ name: "rest", description: "Rest to regain health (wait)", inputSchema: { type: "object", properties: { ms: { type: "number" } } } }
-    ,{ name: "sleepInNearbyBed", description: "Find and sleep in a bed; if daytime, set spawn on the bed", inputSchema: { type: "object", properties: { username: { type: "string" }, setSpawnIfDay: { type: "boolean" } } } }
-    ,{ name: "openNearbyChest", description: "Open a nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "dance", description: "Make the bot dance", inputSchema: { type: "object", properties: { username: { type: "string" }, durationMs: { type: "number" } } } }
-    ,{ name: "buildSomething", description: "Build structures using commands (creative) or survival placement", inputSchema: { type: "object", properties: { username: { type: "string" }, mode: { type: "string", enum: ["commands","survival"] }, commands: { type: "array", items: { type: "string" } }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, itemName: { type: "string" } } } }
-    ,{ name: "depositItemsToNearbyChest", description: "Deposit items to nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, count: { type: "number" } }, required: ["itemName"] } }
-    ,{ name: "withdrawItemsFromNearbyChest", description: "Withdraw items from nearby chest", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, count: { type: "number" } }, required: ["itemName"] } }
-    ,{ name: "digBlock", description: "Dig a block at coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["x","y","z"] } }
-    ,{ name: "placeBlockAt", description: "Place a block at coordinates", inputSchema: { type: "object", properties: { username: { type: "string" }, itemName: { type: "string" }, x: { type: "number" }, y: { type: "number" }, z: { type: "number" } }, required: ["itemName","x","y","z"] } }
-    ,{ name: "listInventory", description: "List inventory items", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "detectGamemode", description: "Detect current game mode", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "goToSurface", description: "Move to the nearest surface above the bot", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "findBlock", description: "Find nearest block of a type", inputSchema: { type: "object", properties: { username: { type: "string" }, blockName: { type: "string" } }, required: ["blockName"] } }
-    ,{ name: "findEntity", description: "Find nearest entity of a type", inputSchema: { type: "object", properties: { username: { type: "string" }, targetName: { type: "string" }, type: { type: "string" } } } }
-    ,{ name: "scanArea", description: "Scan blocks/entities within radius with counts and sample coordinates; includes dropped items", inputSchema: { type: "object", properties: { username: { type: "string" }, radius: { type: "number" } } } }
-    ,{ name: "returnToLastDeathLocation", description: "Return to recorded death position and collect drops nearby", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    ,{ name: "plantSeedsWithinRadius", description: "Plant seeds on nearby farmland within radius", inputSchema: { type: "object", properties: { username: { type: "string" }, seedName: { type: "string" }, radius: { type: "number" } } } }
-    ,{ name: "gatherSeeds", description: "Break grass to collect wheat_seeds until count reached", inputSchema: { type: "object", properties: { username: { type: "string" }, count: { type: "number" }, radius: { type: "number" }, maxMs: { type: "number" } } } }
-    ,{ name: "stopAttack", description: "Stop current attack", inputSchema: { type: "object", properties: { username: { type: "string" } } } }
-    
-  ];
+  // Unknown fields are rejected by validateToolArgs, so advertise that to clients
+  const tools = toolDefinitions.map(t => ({ name: t.name, description: t.description, inputSchema: { ...t.inputSchema, additionalProperties: false } }));
   return { tools };
 }
 
-async function main() {
-  log("server starting");
+// Command-line flags: `--name value` or `--name=value`; bare `--name` yields "true"
+function getCliFlag(name: string): string | undefined {
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === `--${name}`) {
+      const next = argv[i + 1];
+      return next != null && !next.startsWith('--') ? next : 'true';
+    }
+    if (a.startsWith(`--${name}=`)) return a.slice(name.length + 3);
+  }
+  return undefined;
+}
+
+function createMcpServer() {
   const server = new Server({
     name: "minecraft-mcp-mineflayer",
     version: "0.1.0",
   }, {
-    capabilities: { tools: {} },
+    capabilities: { tools: {}, resources: { subscribe: true, listChanged: true } },
   });
 
   // Notify client about tool availability after initialization
@@ -2647,21 +5598,141 @@ async function main() {
     server.sendToolListChanged().catch((e) => log("sendToolListChanged error", e));
   };
 
+  const resourceSink: ResourceSink = {
+    subscriptions: new Set(),
+    updated: (uri) => { server.sendResourceUpdated({ uri }).catch(() => {}); },
+    listChanged: () => { server.sendResourceListChanged().catch(() => {}); }
+  };
+  resourceSinks.add(resourceSink);
+
+  // Keepalive: periodically re-announce tools to keep some clients from idling out
+  const keepalive = setInterval(() => {
+    server.sendToolListChanged().catch(() => {});
+  }, 120000);
+
   server.onerror = (e) => log("protocol error", e);
   server.onclose = () => {
     log("protocol closed");
+    resourceSinks.delete(resourceSink);
+    clearInterval(keepalive);
   };
 
 
   // Fallback request handler to ensure clients that call plain strings still get a response
-  server.fallbackRequestHandler = async (request: any) => {
+  server.fallbackRequestHandler = async (request: any, extra: any) => {
     const m = request?.method;
     log("fallback handler", m);
     if (m === "tools/list" || m === "list_tools") return listTools() as any;
-    if (m === "tools/call" || m === "call_tool") return sendToolCall(request) as any;
+    if (m === "tools/call" || m === "call_tool") return sendToolCall(request, extra) as any;
+    if (m === "resources/list") return listResources() as any;
+    if (m === "resources/templates/list") return listResourceTemplates() as any;
+    if (m === "resources/read") return readResource(request) as any;
+    if (m === "resources/subscribe") { resourceSink.subscriptions.add(String(request?.params?.uri || '')); return {} as any; }
+    if (m === "resources/unsubscribe") { resourceSink.subscriptions.delete(String(request?.params?.uri || '')); return {} as any; }
     return { content: [{ type: "text", text: JSON.stringify({ ok: false, error: "Unknown method" }) }] } as any;
   };
+  return server;
+}
+
+// Bots created by an HTTP session stay in the shared registry; the session only loses ownership
+function releaseSessionBots(sessionId: string) {
+  for (const bot of bots.values()) {
+    if ((bot as any).__ownerSession === sessionId) (bot as any).__ownerSession = undefined;
+  }
+}
+
+// Host headers a local client may send. Browsers put the attacker's hostname there after a DNS
+// rebinding, so anything else is refused; a wildcard bind accepts this machine's own addresses.
+async function allowedHttpHosts(host: string, port: number): Promise<string[]> {
+  const os = await import("node:os");
+  const loopback = ['127.0.0.1', 'localhost', '::1'];
+  let names = [host];
+  if (loopback.includes(host)) names = loopback;
+  else if (host === '0.0.0.0' || host === '::') {
+    names = [...loopback, os.hostname(), ...Object.values(os.networkInterfaces()).flatMap(list => (list ?? []).map(a => a.address))];
+  }
+  return [...new Set(names)].map(name => `${name.includes(':') ? `[${name}]` : name}:${port}`);
+}
+
+async function startHttp(host: string, port: number) {
+  const http = await import("node:http");
+  const { randomUUID } = await import("node:crypto");
+  let allowedHosts: string[] = [];
+  const { StreamableHTTPServerTransport } = await import("@modelcontextprotocol/sdk/server/streamableHttp.js");
+  const sessions = new Map<string, InstanceType<typeof StreamableHTTPServerTransport>>();
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      if (url.pathname !== '/mcp') { res.writeHead(404).end(); return; }
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport = sessionId ? sessions.get(sessionId) : undefined;
+      if (!transport) {
+        if (sessionId) {
+          res.writeHead(404, { 'content-type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'Session not found' }, id: null }));
+          return;
+        }
+        // New session: the transport rejects anything but an initialize request
+        const created = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          enableDnsRebindingProtection: true,
+          allowedHosts,
+          allowedOrigins: allowedHosts.map(h => `http://${h}`),
+          onsessioninitialized: (id: string) => { sessions.set(id, created); log("http session opened", id); }
+        });
+        created.onclose = () => {
+          const id = created.sessionId;
+          if (!id) return;
+          sessions.delete(id);
+          releaseSessionBots(id);
+          log("http session closed", id);
+        };
+        const server = createMcpServer();
+        await server.connect(created);
+        await created.handleRequest(req, res);
+        // Not an initialize request: nothing will reuse this server, so tear it down
+        if (!created.sessionId) await server.close();
+        return;
+      }
+      await transport.handleRequest(req, res);
+    } catch (e) {
+      log("http request error", e as any);
+      if (!res.headersSent) res.writeHead(500).end();
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  httpServer.on('close', () => { for (const transport of sessions.values()) transport.close().catch(() => {}); });
+  // Port 0 picks a free port; the Host header carries the real one
+  const bound = (httpServer.address() as import("node:net").AddressInfo).port;
+  allowedHosts = await allowedHttpHosts(host, bound);
+  log(`listening on http://${host}:${bound}/mcp`);
+  return httpServer;
+}
+
+async function main() {
+  log("server starting");
+  const configFile = getCliFlag('config') ?? process.env.MCP_CONFIG;
+  if (configFile) {
+    useServerConfig(await loadServerConfig(configFile));
+    log(`loaded config ${configFile} (${Object.keys(serverConfig.profiles).length} profiles)`);
+  }
+  // CLI/env override the config file's audit directory
+  const auditDir = getCliFlag('audit-dir') ?? process.env.MCP_AUDIT_DIR ?? serverConfig.audit?.dir;
+  configureAudit(auditDir ? { ...serverConfig.audit, dir: auditDir } : undefined);
+  configureWaypoints(getCliFlag('waypoints-file') ?? process.env.MCP_WAYPOINTS_FILE ?? serverConfig.waypoints?.file);
+  configureWorldMemory(getCliFlag('world-memory-file') ?? process.env.MCP_WORLD_MEMORY_FILE ?? serverConfig.worldMemory?.file);
+  const transportKind = String(getCliFlag('transport') ?? process.env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (transportKind === 'http') {
+    const host = getCliFlag('host') ?? process.env.MCP_HTTP_HOST ?? '127.0.0.1';
+    const port = Number(getCliFlag('port') ?? process.env.MCP_HTTP_PORT ?? 3000);
+    await startHttp(host, port);
+    return;
+  }
+  if (transportKind !== 'stdio') throw new Error(`Unknown transport '${transportKind}' (expected stdio or http)`);
 
+  const server = createMcpServer();
   // Dynamically import the stdio transport at runtime to avoid ESM path mismatches
   const { StdioServerTransport } = await import("@modelcontextprotocol/sdk/server/stdio.js");
   const transport = new StdioServerTransport();
@@ -2675,15 +5746,20 @@ async function main() {
   } catch (e) {
     log("sendToolListChanged post-connect error", e as any);
   }
-  // Keepalive: periodically re-announce tools to keep some clients from idling out
-  setInterval(() => {
-    server.sendToolListChanged().catch(() => {});
-  }, 120000);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+// Exposed for the unit tests; importing this module does not start the server
+export { bots, toolRegistry, getStatus, sendToolCall, loadServerConfig, useServerConfig, startHttp };
+
+function isEntryPoint(): boolean {
+  try { return Boolean(process.argv[1]) && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href; } catch { return false; }
+}
+
+if (isEntryPoint()) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
 
 
@@ -0,0 +1,24 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { callToolViaServer, resetConfig, useConfig } from "./support/harness.js";
+
+afterEach(async () => {
+  await resetConfig();
+});
+
+test("setConfig refuses unknown profiles instead of creating them", async () => {
+  await useConfig({ profiles: { miner: { settings: { autoEatThreshold: 10 } } } });
+  const res = await callToolViaServer("setConfig", { profile: "minr", settings: { autoEatThreshold: 12 } });
+  assert.equal(res.error, "unknown_profile");
+  assert.deepEqual(res.available, ["miner"]);
+  assert.deepEqual(Object.keys((await callToolViaServer("getConfig", {})).profiles), ["miner"]);
+  assert.equal((await callToolViaServer("setConfig", { profile: "miner", settings: { autoEatThreshold: 12 } })).settings.autoEatThreshold, 12);
+});
+
+test("resetting a default restores the config file's value", async () => {
+  await useConfig({ defaults: { autoEatThreshold: 10 } });
+  await callToolViaServer("setConfig", { settings: { autoEatThreshold: 18, mineSearchRadius: 16 } });
+  const reset = await callToolViaServer("setConfig", { settings: { autoEatThreshold: null, mineSearchRadius: null } });
+  assert.equal(reset.settings.autoEatThreshold, 10);
+  assert.equal(reset.settings.mineSearchRadius, 64);
+});
@@ -0,0 +1,45 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+test("crafts sticks from planks without a table", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world, { inventory: [{ name: "oak_planks", count: 2 }] });
+  const res = await callTool("craftItems", { username: bot.username, itemName: "stick", count: 4 });
+  assert.equal(res.ok, true);
+  assert.equal(res.crafted, 4);
+  assert.equal(res.usedTable, false);
+  assert.equal(bot.countItem("stick"), 4);
+  assert.equal(bot.countItem("oak_planks"), 0);
+});
+
+test("walks to a nearby crafting table for 3x3 recipes", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 5, y: 1, z: 0 }, "crafting_table");
+  const bot = addFakeBot(world, { inventory: [{ name: "oak_planks", count: 3 }, { name: "stick", count: 2 }] });
+  const res = await callTool("craftItems", { username: bot.username, itemName: "wooden_pickaxe" });
+  assert.equal(res.ok, true);
+  assert.equal(res.usedTable, true);
+  assert.equal(bot.countItem("wooden_pickaxe"), 1);
+  assert.ok(bot.entity.position.distanceTo(world.blockAt({ x: 5, y: 1, z: 0 }).position) <= 3);
+});
+
+test("reports missing_table when no table is nearby or carried", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world, { inventory: [{ name: "oak_planks", count: 3 }, { name: "stick", count: 2 }] });
+  const res = await callTool("craftItems", { username: bot.username, itemName: "wooden_pickaxe" });
+  assert.equal(res.ok, false);
+  assert.equal(res.reason, "missing_table");
+  assert.equal(bot.countItem("oak_planks"), 3);
+});
+
+test("reports no_recipe when ingredients are missing at a table", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 2, y: 1, z: 0 }, "crafting_table");
+  const bot = addFakeBot(world, { inventory: [{ name: "oak_planks", count: 1 }] });
+  const res = await callTool("craftItems", { username: bot.username, itemName: "wooden_pickaxe" });
+  assert.equal(res.ok, false);
+  assert.equal(res.reason, "no_recipe");
+});
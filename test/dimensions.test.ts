@@ -0,0 +1,102 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, callToolViaServer, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+// An overworld with a portal at x=4 and a nether whose arrival point is next to its own portal
+function linkedWorlds() {
+  const overworld = new FakeWorld();
+  overworld.fill({ x: -8, y: 0, z: -8 }, { x: 8, y: 0, z: 8 }, "stone");
+  overworld.fill({ x: 4, y: 1, z: 0 }, { x: 4, y: 3, z: 0 }, "nether_portal");
+  const nether = new FakeWorld();
+  nether.dimension = "the_nether";
+  nether.fill({ x: -8, y: 63, z: -8 }, { x: 8, y: 63, z: 8 }, "netherrack");
+  nether.fill({ x: 0, y: 64, z: 0 }, { x: 0, y: 66, z: 0 }, "nether_portal");
+  overworld.linkPortal("nether_portal", nether, { x: 1.5, y: 64, z: 0.5 });
+  nether.linkPortal("nether_portal", overworld, { x: 5.5, y: 1, z: 0.5 });
+  return { overworld, nether };
+}
+
+test("travelToDimension walks into the nearest portal and waits for the dimension change", async () => {
+  const { overworld } = linkedWorlds();
+  const bot = addFakeBot(overworld, { username: "Traveller" });
+
+  const res = await callTool("travelToDimension", { username: bot.username, dimension: "nether" });
+  assert.equal(res.ok, true);
+  assert.deepEqual([res.from, res.dimension], ["overworld", "the_nether"]);
+  // The lowest block of the portal column
+  assert.deepEqual(res.portal, { x: 4, y: 1, z: 0 });
+  assert.deepEqual(res.position, { x: 1.5, y: 64, z: 0.5 });
+
+  const status = await callToolViaServer("getStatus", { username: bot.username });
+  assert.equal(status.state.env.dimension, "the_nether");
+  assert.equal((await callTool("travelToDimension", { username: bot.username, dimension: "the_nether" })).alreadyThere, true);
+  assert.equal((await callTool("travelToDimension", { username: bot.username, dimension: "the_end" })).error, "no_route");
+
+  const back = await callTool("travelToDimension", { username: bot.username, dimension: "overworld" });
+  assert.equal(back.ok, true);
+  // Both sides of the portal are remembered as auto-waypoints
+  const portals = await callToolViaServer("listWaypoints", { username: bot.username, dimension: "all" });
+  const dims = portals.waypoints.filter((w: any) => w.auto === "portal").map((w: any) => w.dimension);
+  assert.ok(dims.includes("overworld") && dims.includes("the_nether"));
+});
+
+test("travelToDimension reports a missing portal", async () => {
+  const bot = addFakeBot(new FakeWorld());
+  const res = await callTool("travelToDimension", { username: bot.username, dimension: "the_nether", searchRadius: 16 });
+  assert.deepEqual([res.ok, res.error, res.portal], [false, "portal_not_found", "nether_portal"]);
+});
+
+test("goToKnownLocation viaNether travels at 1:8 scale between two portals", async () => {
+  const { overworld, nether } = linkedWorlds();
+  // An exit portal near 800/8, 400/8
+  nether.fill({ x: 100, y: 64, z: 52 }, { x: 100, y: 66, z: 52 }, "nether_portal");
+  const bot = addFakeBot(overworld, { username: "Commuter" });
+
+  const far = await callTool("goToKnownLocation", { username: bot.username, x: 800, y: 1, z: 400, viaNether: true });
+  assert.deepEqual(far.legs.map((l: any) => l.leg), ["enter_nether", "nether", "exit_nether", "overworld"]);
+  assert.deepEqual(far.legs[1].target, { x: 100.5, z: 50.5 });
+  assert.equal(far.arrived, true);
+  assert.equal(far.dimension, "overworld");
+  assert.deepEqual([bot.entity.position.x, bot.entity.position.z], [800.5, 400.5]);
+
+  // Starting in the nether skips the first portal; without a portal near the nether target the trip stops there
+  const netherBot = addFakeBot(nether, { username: "Stranded", position: { x: 0.5, y: 64, z: 3.5 } });
+  const stuck = await callTool("goToKnownLocation", { username: netherBot.username, x: 1600, y: 1, z: 0, viaNether: true });
+  assert.equal(stuck.error, "portal_not_found");
+  assert.equal(stuck.dimension, "the_nether");
+  assert.deepEqual(stuck.netherTarget, { x: 200.5, z: 0.5 });
+});
+
+test("goToKnownLocation viaNether holds the task slot and stops when cancelled in the nether", async () => {
+  const { overworld, nether } = linkedWorlds();
+  nether.fill({ x: 100, y: 64, z: 52 }, { x: 100, y: 66, z: 52 }, "nether_portal");
+  const bot = addFakeBot(overworld, { username: "Recalled" });
+  // The nether walk makes no headway, so the trip sits in that leg until cancelled
+  const setGoal = bot.pathfinder.setGoal;
+  bot.pathfinder.setGoal = (goal: any) => { if (goal?.constructor?.name !== "GoalNearXZ") setGoal(goal); };
+
+  const trip = callTool("goToKnownLocation", { username: bot.username, x: 800, y: 1, z: 400, viaNether: true });
+  await new Promise(r => setTimeout(r, 20));
+  assert.ok((await callToolViaServer("listQueue", { username: bot.username })).running);
+  assert.equal((await callTool("digBlock", { username: bot.username, x: 0, y: 0, z: 0 }).catch((e: Error) => e.message)), "another_task_running");
+  await callToolViaServer("stopAllTasks", { username: bot.username });
+  const res = await trip;
+  assert.deepEqual([res.error, res.cancelled], ["cancelled", true]);
+  assert.deepEqual(res.legs.map((l: any) => [l.leg, l.ok]), [["enter_nether", true], ["nether", false]]);
+  assert.equal(res.dimension, "the_nether");
+});
+
+test("goToKnownLocation viaNether spends one maxMs across all legs", async () => {
+  const { overworld, nether } = linkedWorlds();
+  nether.fill({ x: 100, y: 64, z: 52 }, { x: 100, y: 66, z: 52 }, "nether_portal");
+  const bot = addFakeBot(overworld, { username: "Hurried" });
+  // Waiting for chunks after the portal trip uses up the whole budget
+  bot.waitForTicks = () => new Promise(resolve => setTimeout(resolve, 60));
+
+  const res = await callTool("goToKnownLocation", { username: bot.username, x: 800, y: 1, z: 400, viaNether: true, maxMs: 40 });
+  assert.equal(res.error, "timeout");
+  assert.deepEqual(res.legs.map((l: any) => [l.leg, l.ok]), [["enter_nether", true], ["nether", false]]);
+  assert.equal(res.dimension, "the_nether");
+});
@@ -0,0 +1,46 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+test("walks frontier chunks until the wanted block is in range", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 40, y: 0, z: 55 }, "diamond_ore");
+  world.setBlock({ x: 20, y: 0, z: 4 }, "coal_ore");
+  const bot = addFakeBot(world);
+  const res = await callTool("explore", { username: bot.username, blockName: "diamond_ore" });
+  assert.equal(res.ok, true);
+  assert.equal(res.stopReason, "found");
+  assert.deepEqual(res.found, { kind: "block", name: "diamond_ore", position: { x: 40, y: 0, z: 55 } });
+  assert.ok(res.discovered.newChunks > 1);
+  assert.ok(bot.entity.position.distanceTo(world.blockAt({ x: 40, y: 0, z: 55 }).position) <= 32);
+  // Notable blocks passed on the way are reported too
+  assert.ok(res.discovered.blocks.diamond_ore?.length || res.discovered.blocks.coal_ore?.length);
+});
+
+test("stops at the distance budget and does not revisit chunks", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world);
+  const first = await callTool("explore", { username: bot.username, maxDistance: 40 });
+  assert.equal(first.ok, true);
+  assert.equal(first.found, null);
+  assert.equal(first.stopReason, "distance_budget");
+  assert.ok(first.travelled >= 40);
+
+  const second = await callTool("explore", { username: bot.username, maxDistance: 40 });
+  // Chunks from the first run still count as visited
+  assert.equal(second.discovered.visitedChunks, first.discovered.visitedChunks + second.discovered.newChunks);
+  assert.ok(second.discovered.newChunks > 0);
+});
+
+test("stops when a matching entity comes into range", async () => {
+  const world = new FakeWorld();
+  world.addEntity({ type: "mob", name: "zombie", position: { x: 0, y: 1, z: 45 } });
+  const bot = addFakeBot(world);
+  const res = await callTool("explore", { username: bot.username, entityName: "zombie", searchRadius: 24, maxDistance: 400 });
+  assert.equal(res.stopReason, "found");
+  assert.equal(res.found.kind, "entity");
+  assert.equal(res.found.name, "zombie");
+  assert.equal(res.discovered.entities.zombie.count, 1);
+});
@@ -0,0 +1,58 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { bots } from "../src/index.js";
+import { FakeWorld, callTool, callToolViaServer, resetBots, useFakeServer } from "./support/harness.js";
+
+let restoreFactory = () => {};
+afterEach(async () => {
+  await callTool("leaveGame", { disconnectAll: true });
+  resetBots();
+  restoreFactory();
+});
+
+test("joinMany spawns bots from a template and listBots reports them", async () => {
+  restoreFactory = useFakeServer(new FakeWorld());
+  const res = await callToolViaServer("joinMany", { template: "Worker{n}", count: 3, staggerMs: 0, port: 25570 });
+  assert.equal(res.ok, true);
+  assert.deepEqual(res.joined, ["Worker1", "Worker2", "Worker3"]);
+
+  const list = await callToolViaServer("listBots", {});
+  assert.equal(list.count, 3);
+  for (const b of list.bots) {
+    assert.equal(b.state, "connected");
+    assert.equal(b.server, "localhost:25570");
+    assert.equal(b.task, null);
+    assert.deepEqual(b.position, { x: 0.5, y: 1, z: 0.5 });
+  }
+});
+
+test("joinMany keeps going past names that are taken", async () => {
+  restoreFactory = useFakeServer(new FakeWorld());
+  await callTool("joinGame", { username: "Bot2" });
+  const res = await callToolViaServer("joinMany", { template: "Bot", count: 3, staggerMs: 0 });
+  assert.deepEqual(res.joined, ["Bot1", "Bot3"]);
+  assert.equal(res.failed.length, 1);
+  assert.match(res.failed[0].error, /already exists/);
+
+  const tooLong = await callToolViaServer("joinMany", { template: "AVeryLongBotName{n}", count: 1 });
+  assert.equal(tooLong.error, "invalid_name");
+});
+
+test("getStatus reads one-shot fields without clearing them", async () => {
+  restoreFactory = useFakeServer(new FakeWorld());
+  await callTool("joinGame", { username: "Solo" });
+  const bot = bots.get("Solo") as any;
+  bot.__lastDamage = { amount: 2, time: Date.now() };
+
+  const a = await callToolViaServer("getStatus", { username: "Solo" });
+  assert.equal(a.state.lastDamage.amount, 2);
+  assert.equal(a.state.connection.state, "connected");
+  assert.equal(a.state.connection.ping, null);
+
+  // Tools called without `username` still report (and consume) the default bot's status
+  const pos = await callToolViaServer("getPosition", {});
+  assert.equal(pos.bot, "Solo");
+  assert.equal(pos.status.connection.server, "localhost:25565");
+  const after = await callToolViaServer("getStatus", {});
+  assert.equal(after.state.lastDamage, null);
+});
@@ -0,0 +1,114 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { FakeWorld, FakeBot, addFakeBot, callTool, callToolViaServer, resetBots } from "./support/harness.js";
+
+const require = createRequire(import.meta.url);
+const AStar = require("mineflayer-pathfinder/lib/astar");
+const Move = require("mineflayer-pathfinder/lib/move");
+const { goals } = require("mineflayer-pathfinder");
+
+afterEach(resetBots);
+
+// A stone floor at y=0 from x=-4..12 with a 10-deep shaft to the east
+function ledge(): FakeWorld {
+  const world = new FakeWorld();
+  world.fill({ x: -4, y: 0, z: -4 }, { x: 12, y: 0, z: 4 }, "stone");
+  world.fill({ x: 8, y: -10, z: -4 }, { x: 12, y: 0, z: 4 }, "air");
+  world.fill({ x: 8, y: -11, z: -4 }, { x: 12, y: -11, z: 4 }, "stone");
+  return world;
+}
+
+// The Movements object the last navigating tool handed to the pathfinder
+const movements = (bot: FakeBot): any => bot.pathfinder.movements;
+const hazardTypes = (res: any) => res.hazards.map((h: any) => h.type).sort();
+
+test("isPositionSafe reports terrain hazards around a position", async () => {
+  const world = ledge();
+  world.setBlock({ x: 2, y: 0, z: 3 }, "lava");
+  world.setBlock({ x: -2, y: 0, z: -2 }, "magma_block");
+  world.setBlock({ x: -3, y: 1, z: 2 }, "powder_snow");
+  const bot = addFakeBot(world);
+
+  const here = await callTool("isPositionSafe", { username: bot.username });
+  assert.deepEqual([here.safe, here.standable, here.hazards], [true, true, []]);
+  assert.deepEqual(here.position, { x: 0, y: 1, z: 0 });
+
+  assert.deepEqual(hazardTypes(await callTool("isPositionSafe", { username: bot.username, x: 2, y: 1, z: 2 })), ["lava"]);
+  assert.deepEqual(hazardTypes(await callTool("isPositionSafe", { username: bot.username, x: -2, y: 1, z: -2 })), ["magma"]);
+  assert.deepEqual(hazardTypes(await callTool("isPositionSafe", { username: bot.username, x: -3, y: 1, z: 2 })), ["powder_snow"]);
+
+  const edge = await callTool("isPositionSafe", { username: bot.username, x: 7, y: 1, z: 0 });
+  assert.deepEqual(hazardTypes(edge), ["cliff"]);
+  assert.equal(edge.hazards[0].height, 11);
+  assert.ok(edge.cost > 0);
+  // A short step down is not a cliff
+  world.fill({ x: 8, y: -11, z: -4 }, { x: 12, y: -2, z: 4 }, "dirt");
+  assert.equal((await callTool("isPositionSafe", { username: bot.username, x: 7, y: 1, z: 0 })).safe, true);
+
+  const air = await callTool("isPositionSafe", { username: bot.username, x: 10, y: 5, z: 0 });
+  assert.equal(air.standable, false);
+  assert.equal((await callTool("isPositionSafe", { username: bot.username, x: 1 })).error, "invalid_position");
+});
+
+test("hostile mobs make nearby positions unsafe within the configured radius", async () => {
+  const world = ledge();
+  world.addEntity({ type: "mob", name: "zombie", position: { x: 4.5, y: 1, z: 0.5 } });
+  world.addEntity({ type: "animal", name: "cow", position: { x: -3.5, y: 1, z: 0.5 } });
+  const bot = addFakeBot(world);
+
+  const near = await callTool("isPositionSafe", { username: bot.username });
+  assert.deepEqual(hazardTypes(near), ["hostile"]);
+  assert.equal(near.hazards[0].name, "zombie");
+  assert.equal(near.hazards[0].distance, 4);
+  assert.equal((await callTool("isPositionSafe", { username: bot.username, hostileRadius: 3 })).safe, true);
+
+  await callToolViaServer("setConfig", { username: bot.username, settings: { hostileAvoidRadius: 0 } });
+  assert.equal((await callTool("isPositionSafe", { username: bot.username })).safe, true);
+});
+
+test("navigating tools add hazard costs to pathfinder steps", async () => {
+  const world = ledge();
+  world.setBlock({ x: 2, y: 0, z: 3 }, "lava");
+  world.addEntity({ type: "mob", name: "skeleton", position: { x: -2.5, y: 1, z: -2.5 } });
+  const bot = addFakeBot(world);
+  await callTool("goToKnownLocation", { username: bot.username, x: 1, y: 1, z: 0 });
+
+  // Each move is charged once, for where the feet end up
+  const step = (from: [number, number], to: [number, number]) => movements(bot).getNeighbors(new Move(from[0], 1, from[1], 0, 0))
+    .find((m: any) => m.x === to[0] && m.y === 1 && m.z === to[1]).cost;
+  assert.equal(step([0, 0], [0, 1]), 1 + 15);
+  assert.equal(step([1, 2], [2, 2]), 1 + 40);
+  assert.equal(step([6, -4], [7, -4]), 1 + 8);
+  assert.equal(step([-1, 2], [-1, 3]), 1);
+});
+
+test("a route over a lava bridge with a mob nearby stays possible, and a safe detour wins", async () => {
+  // A one-wide bridge along z=0 over lava, and a long way round on solid ground further south
+  const world = new FakeWorld();
+  world.fill({ x: -1, y: 0, z: -1 }, { x: 11, y: 0, z: 9 }, "stone");
+  world.fill({ x: 1, y: 0, z: -1 }, { x: 9, y: 0, z: 3 }, "lava");
+  world.fill({ x: 1, y: 0, z: 0 }, { x: 9, y: 0, z: 0 }, "stone");
+  world.addEntity({ type: "mob", name: "zombie", position: { x: 5.5, y: 1, z: 0.5 } });
+  const bot = addFakeBot(world);
+  await callTool("goToKnownLocation", { username: bot.username, x: 0, y: 1, z: 1 });
+
+  const route = () => {
+    const m = movements(bot);
+    m.canDig = false;
+    m.allowParkour = false;
+    const search = new AStar(new Move(0, 1, 0, 0, 0), m, new goals.GoalBlock(10, 1, 0), 5000);
+    let result = search.compute();
+    while (result.status === "partial") result = search.compute();
+    return result;
+  };
+  const detour = route();
+  assert.equal(detour.status, "success");
+  assert.ok(detour.path.some((p: any) => p.z >= 5), "walks round the lava");
+
+  // Without the detour the bridge is still walkable, though every step costs lava plus hostile
+  world.fill({ x: 1, y: 0, z: 4 }, { x: 9, y: 0, z: 9 }, "lava");
+  const bridge = route();
+  assert.equal(bridge.status, "success");
+  assert.ok(bridge.path.every((p: any) => p.z === 0));
+});
@@ -0,0 +1,39 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { startHttp } from "../src/index.js";
+
+let server: Server;
+let port: number;
+
+before(async () => {
+  server = await startHttp("127.0.0.1", 0);
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const initialize = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } } });
+
+// Raw requests, since fetch will not let a test forge the Host header
+function post(headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: "127.0.0.1", port, path: "/mcp", method: "POST", headers: { "content-type": "application/json", accept: "application/json, text/event-stream", ...headers } }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(initialize);
+  });
+}
+
+test("requests from foreign origins or rebound host names are refused", async () => {
+  assert.equal(await post({ origin: "http://evil.example" }), 403);
+  assert.equal(await post({ host: `evil.example:${port}` }), 403);
+  assert.equal(await post({ origin: `http://localhost:${port}`, host: `localhost:${port}` }), 200);
+  assert.equal(await post({}), 200);
+});
@@ -0,0 +1,93 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Vec3 } from "vec3";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { SERVER_VERSION, getFreePort, startLocalServer, stopLocalServer } from "../support/localServer.js";
+
+// Drives the built stdio server (dist/index.js) end to end against a local flying-squid server.
+// Run with `npm run test:integration`, which builds first.
+const SERVER_ENTRY = fileURLToPath(new URL("../../dist/index.js", import.meta.url));
+const BOT = "Integrator";
+
+let serv: any;
+let port: number;
+let client: Client;
+
+async function call(name: string, args: Record<string, unknown> = {}): Promise<any> {
+  const res: any = await client.callTool({ name, arguments: args }, undefined, { timeout: 90000 });
+  return JSON.parse(res.content[0].text);
+}
+
+function serverPlayer(): any {
+  return serv.players.find((p: any) => p.username === BOT);
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 10000) {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    if (await check()) return;
+    await new Promise(r => setTimeout(r, 100));
+  }
+  throw new Error("condition not met in time");
+}
+
+before(async () => {
+  port = await getFreePort();
+  serv = await startLocalServer(port);
+  client = new Client({ name: "integration-test", version: "1.0.0" });
+  const dataDir = mkdtempSync(join(tmpdir(), "mcp-data-"));
+  const args = [SERVER_ENTRY, "--waypoints-file", join(dataDir, "waypoints.json"), "--world-memory-file", join(dataDir, "world-memory.json")];
+  await client.connect(new StdioClientTransport({ command: process.execPath, args, stderr: "ignore" }));
+});
+
+after(async () => {
+  try { await client?.close(); } catch {}
+  await stopLocalServer(serv);
+});
+
+test("joins, moves, digs, places, chats and leaves through MCP tools/call", { timeout: 180000 }, async () => {
+  const joined = await call("joinGame", { username: BOT, host: "127.0.0.1", port, version: SERVER_VERSION });
+  assert.equal(joined.ok, true, JSON.stringify(joined));
+  await waitFor(() => Boolean(serverPlayer()));
+
+  const { position } = await call("getPosition", { username: BOT });
+  const origin = new Vec3(position.x, position.y, position.z).floored();
+  await waitFor(async () => (await call("listWaypoints", { username: BOT })).waypoints.some((w: any) => w.auto === "spawn"));
+
+  // Walk a few blocks along the flat ground
+  const dest = origin.offset(3, 0, 0);
+  const plan = await call("planPath", { username: BOT, x: dest.x, y: dest.y, z: dest.z });
+  assert.equal(plan.reachable, true, JSON.stringify(plan));
+  assert.ok(plan.length >= 2, JSON.stringify(plan));
+  const moved = await call("goToKnownLocation", { username: BOT, x: dest.x, y: dest.y, z: dest.z, maxMs: 30000 });
+  assert.equal(moved.arrived, true, JSON.stringify(moved));
+  assert.equal(moved.status.env.dimension, "overworld");
+  await waitFor(() => serverPlayer().position.distanceTo(dest.offset(0.5, 0, 0.5)) <= 2);
+
+  // Dig the ground block next to us and check the server saw it
+  const digPos = dest.offset(1, -1, 0);
+  const dug = await call("digBlock", { username: BOT, ...digPos });
+  assert.equal(dug.ok, true, JSON.stringify(dug));
+  await waitFor(async () => (await serv.overworld.getBlock(digPos)).name === "air");
+
+  // Get a block via a slash command, then place it back into the hole
+  const given = await call("sendChat", { username: BOT, message: `/give ${BOT} dirt 4` });
+  assert.equal(given.ok, true);
+  await waitFor(async () => (await call("listInventory", { username: BOT })).items?.some((i: any) => i.name === "dirt"));
+  const placed = await call("placeBlockAt", { username: BOT, itemName: "dirt", ...digPos });
+  assert.equal(placed.ok, true, JSON.stringify(placed));
+  await waitFor(async () => (await serv.overworld.getBlock(digPos)).name === "dirt");
+
+  // Chat round-trips back into the bot's chat log
+  await call("sendChat", { username: BOT, message: "hello from the integration test" });
+  await waitFor(async () => (await call("readChat", { username: BOT })).messages.some((m: any) => m.text.includes("hello from the integration test")));
+
+  const left = await call("leaveGame", { username: BOT });
+  assert.equal(left.ok, true);
+  await waitFor(() => !serverPlayer());
+});
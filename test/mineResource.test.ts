@@ -0,0 +1,58 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, callToolViaServer, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+test("mines the requested number of blocks and collects the drops", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: 3, y: 0, z: 0 }, { x: 5, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  const res = await callTool("mineResource", { username: bot.username, blockName: "stone", count: 2 });
+  assert.equal(res.ok, true);
+  assert.equal(res.completed, 2);
+  assert.equal(res.remaining, 0);
+  assert.equal(bot.countItem("cobblestone"), 2);
+  assert.equal(bot.heldItem?.name, "stone_pickaxe");
+  // The nearest two go first
+  assert.equal(world.getBlockName({ x: 3, y: 0, z: 0 }), "air");
+  assert.equal(world.getBlockName({ x: 5, y: 0, z: 0 }), "stone");
+});
+
+test("refuses to mine stone without a pickaxe", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 2, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world);
+  const res = await callTool("mineResource", { username: bot.username, blockName: "stone" });
+  assert.equal(res.ok, false);
+  assert.equal(res.error, "no_pickaxe");
+  assert.equal(world.getBlockName({ x: 2, y: 0, z: 0 }), "stone");
+});
+
+test("follows a log into its connected cluster", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: 2, y: 1, z: 2 }, { x: 2, y: 4, z: 2 }, "oak_log");
+  const bot = addFakeBot(world, { inventory: [{ name: "wooden_axe", count: 1 }] });
+  const res = await callTool("mineResource", { username: bot.username, blockName: "oak_log", count: 1 });
+  assert.equal(res.ok, true);
+  assert.equal(res.completed, 4);
+  assert.equal(bot.countItem("oak_log"), 4);
+});
+
+test("fails when nothing matching is in range", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  await assert.rejects(callTool("mineResource", { username: bot.username, blockName: "diamond_ore" }), /No diamond_ore nearby/);
+});
+
+test("the legacy `resource` argument is still accepted as blockName", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: 3, y: 0, z: 0 }, { x: 4, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  const res = await callToolViaServer("mineResource", { username: bot.username, resource: "stone", count: 1 });
+  assert.equal(res.ok, true);
+  assert.equal(bot.countItem("cobblestone"), 1);
+  // Typos are still pointed at the current name, not the alias
+  const typo = await callToolViaServer("mineResource", { username: bot.username, blockname: "stone" });
+  assert.equal(typo.issues.find((i: any) => i.error === "unknown_field").didYouMean, "blockName");
+});
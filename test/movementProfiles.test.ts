@@ -0,0 +1,60 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, FakeBot, addFakeBot, callToolViaServer, resetBots, resetConfig, useConfig } from "./support/harness.js";
+
+afterEach(async () => {
+  resetBots();
+  await resetConfig();
+});
+
+// The Movements object the last navigating tool handed to the pathfinder
+const movements = (bot: FakeBot): any => bot.pathfinder.movements;
+
+function corridor(): FakeWorld {
+  const world = new FakeWorld();
+  world.fill({ x: -2, y: 0, z: -3 }, { x: 14, y: 0, z: 3 }, "stone");
+  return world;
+}
+
+test("the bot's profile applies to every navigating tool until overridden per call", async () => {
+  const bot = addFakeBot(corridor(), { username: "Mover" });
+  await callToolViaServer("goToKnownLocation", { username: "Mover", x: 3, y: 1, z: 0 });
+  assert.equal(movements(bot).canDig, true);
+  assert.equal(movements(bot).allowParkour, false);
+
+  const set = await callToolViaServer("setMovementProfile", { username: "Mover", profile: "no_grief" });
+  assert.equal(set.ok, true);
+  await callToolViaServer("goToKnownLocation", { username: "Mover", x: 6, y: 1, z: 0 });
+  const m = movements(bot);
+  assert.equal(m.canDig, false);
+  assert.deepEqual(m.scafoldingBlocks, []);
+  assert.equal(m.allow1by1towers, false);
+
+  await callToolViaServer("goToKnownLocation", { username: "Mover", x: 9, y: 1, z: 0, movementProfile: "fast" });
+  assert.equal(movements(bot).allowParkour, true);
+  assert.equal(movements(bot).maxDropDown, 4);
+  assert.equal(movements(bot).allowEntityDetection, false);
+  // The override does not stick
+  const cfg = await callToolViaServer("getConfig", { username: "Mover" });
+  assert.equal(cfg.effective.movementProfile, "no_grief");
+});
+
+test("config file profiles extend built-ins and unknown names are rejected", async () => {
+  await useConfig({ movementProfiles: { builder: { scaffoldingBlocks: ["cobblestone"], avoidBreaking: ["glass"] }, careful: { maxDropDown: 1 } } });
+  const bot = addFakeBot(corridor(), { username: "Builder" });
+  await callToolViaServer("goToKnownLocation", { username: "Builder", x: 3, y: 1, z: 0, movementProfile: "builder" });
+  const registry = bot.registry;
+  assert.deepEqual(movements(bot).scafoldingBlocks, [registry.itemsByName.cobblestone.id]);
+  assert.ok(movements(bot).blocksCantBreak.has(registry.blocksByName.glass.id));
+
+  await callToolViaServer("goToKnownLocation", { username: "Builder", x: 5, y: 1, z: 0, movementProfile: "careful" });
+  assert.equal(movements(bot).maxDropDown, 1);
+  assert.equal(movements(bot).canDig, true);
+
+  const bad = await callToolViaServer("goToKnownLocation", { username: "Builder", x: 3, y: 1, z: 0, movementProfile: "teleport" });
+  assert.equal(bad.error, "unknown_movement_profile");
+  assert.ok(bad.available.includes("careful"));
+  assert.equal((await callToolViaServer("setMovementProfile", { username: "Builder", profile: "teleport" })).error, "unknown_movement_profile");
+  // Tools that do not move the bot do not take the argument
+  assert.equal((await callToolViaServer("getConfig", { movementProfile: "fast" })).error, "invalid_arguments");
+});
@@ -0,0 +1,66 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+// The bot stands at the origin facing north towards a wall at z=-4 with ore and a zombie behind it
+function walledYard(): FakeWorld {
+  const world = new FakeWorld();
+  world.fill({ x: -8, y: 0, z: -12 }, { x: 8, y: 0, z: 6 }, "stone");
+  world.fill({ x: -2, y: 1, z: -4 }, { x: 2, y: 3, z: -4 }, "cobblestone");
+  world.setBlock({ x: 0, y: 1, z: -6 }, "diamond_ore");
+  world.setBlock({ x: 5, y: 1, z: -6 }, "gold_ore");
+  world.addEntity({ type: "mob", name: "zombie", position: { x: 0.5, y: 1, z: -7.5 } });
+  world.addEntity({ type: "animal", name: "cow", position: { x: -1.5, y: 1, z: -2.5 } });
+  world.addEntity({ type: "mob", name: "skeleton", position: { x: 0.5, y: 1, z: 4.5 } });
+  return world;
+}
+
+const names = (list: any[]) => list.map(e => e.name);
+
+test("only what is in view and not behind a wall is reported", async () => {
+  const world = walledYard();
+  const bot = addFakeBot(world);
+
+  const res = await callTool("lookAround", { username: bot.username });
+  assert.equal(res.ok, true);
+  assert.equal(res.view.facing, "north");
+  assert.deepEqual(names(res.entities), ["cow"]);
+  assert.equal(res.entities[0].direction, "north-west");
+  assert.ok(res.entities[0].offset.right < 0, "the cow is left of centre");
+
+  assert.ok(names(res.blocks).includes("gold_ore"));
+  assert.ok(!names(res.blocks).includes("diamond_ore"));
+  const gold = res.blocks.find((b: any) => b.name === "gold_ore");
+  assert.deepEqual(gold.nearest.position, { x: 5, y: 1, z: -6 });
+  assert.equal(gold.nearest.direction, "north-east");
+  // scanArea counts blocks whether or not they can be seen
+  assert.equal((await callTool("scanArea", { username: bot.username, radius: 8 })).blocks.diamond_ore, 1);
+
+  assert.equal(res.cursor.name, "cobblestone");
+  assert.deepEqual(res.cursor.position, { x: 0, y: 2, z: -4 });
+  assert.equal(res.cursor.direction, "north");
+
+  world.fill({ x: -2, y: 1, z: -4 }, { x: 2, y: 3, z: -4 }, "air");
+  const open = await callTool("lookAround", { username: bot.username });
+  assert.deepEqual(names(open.entities), ["cow", "zombie"]);
+  assert.ok(names(open.blocks).includes("diamond_ore"));
+});
+
+test("a requested yaw/pitch cone is cast instead of the current view", async () => {
+  const bot = addFakeBot(walledYard());
+
+  const behind = await callTool("lookAround", { username: bot.username, yaw: 180, fov: 60 });
+  assert.equal(behind.view.facing, "south");
+  assert.deepEqual(names(behind.entities), ["skeleton"]);
+  assert.equal(behind.entities[0].distance, 4.2);
+
+  const down = await callTool("lookAround", { username: bot.username, pitch: -90, fov: 10, range: 4 });
+  assert.deepEqual(names(down.blocks), ["stone"]);
+  assert.deepEqual(down.entities, []);
+
+  const narrow = await callTool("lookAround", { username: bot.username, fov: 20, range: 3 });
+  assert.deepEqual(narrow.blocks, [], "the wall is out of range");
+  assert.equal((await callTool("lookAround", { username: bot.username, yaw: "west" })).error, "invalid_direction");
+});
@@ -0,0 +1,74 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+function corridor(): FakeWorld {
+  const world = new FakeWorld();
+  world.fill({ x: -2, y: 0, z: -3 }, { x: 14, y: 0, z: 3 }, "stone");
+  return world;
+}
+
+test("reports cost, work and hazards without moving the bot", async () => {
+  const world = corridor();
+  world.fill({ x: 5, y: 1, z: 0 }, { x: 5, y: 2, z: 0 }, "cobblestone");
+  world.setBlock({ x: 3, y: 0, z: 0 }, "air");
+  world.setBlock({ x: 7, y: 0, z: 2 }, "lava");
+  world.fill({ x: 8, y: 1, z: 0 }, { x: 9, y: 1, z: 0 }, "water");
+  const bot = addFakeBot(world);
+
+  const plan = await callTool("planPath", { username: bot.username, x: 12, y: 1, z: 0 });
+  assert.equal(plan.reachable, true);
+  assert.equal(plan.length, 12);
+  assert.deepEqual(plan.toBreak.map((b: any) => [b.x, b.y, b.name]), [[5, 1, "cobblestone"], [5, 2, "cobblestone"]]);
+  assert.deepEqual(plan.toPlace, [{ x: 3, y: 0, z: 0 }]);
+  assert.deepEqual(plan.hazards.map((h: any) => h.type).sort(), ["lava", "water"]);
+  const water = plan.hazards.find((h: any) => h.type === "water");
+  assert.deepEqual([water.from.x, water.to.x, water.length], [8, 9, 2]);
+  // 12 blocks of sprinting plus two digs and one placement
+  assert.ok(plan.estimatedMs > 12 / 5.612 * 1000 + 2000);
+  assert.deepEqual(plan.waypoints, [{ x: 0, y: 1, z: 0 }, { x: 12, y: 1, z: 0 }]);
+
+  assert.deepEqual([bot.entity.position.x, bot.entity.position.z], [0.5, 0.5]);
+  assert.equal(bot.goals.length, 0);
+});
+
+test("waypoints keep the turns of the route", async () => {
+  const bot = addFakeBot(corridor());
+  const plan = await callTool("planPath", { username: bot.username, x: 6, y: 1, z: 3 });
+  assert.deepEqual(plan.waypoints, [{ x: 0, y: 1, z: 0 }, { x: 6, y: 1, z: 0 }, { x: 6, y: 1, z: 3 }]);
+  assert.deepEqual(plan.hazards, []);
+});
+
+test("an unreachable target is reported, not thrown", async () => {
+  const world = corridor();
+  world.fill({ x: 4, y: 1, z: -3 }, { x: 4, y: 2, z: 3 }, "bedrock");
+  const bot = addFakeBot(world);
+  const plan = await callTool("planPath", { username: bot.username, x: 10, y: 1, z: 0 });
+  assert.equal(plan.ok, true);
+  assert.equal(plan.reachable, false);
+  assert.equal(plan.status, "noPath");
+});
+
+test("the search is stepped past partial results until it settles or the budget runs out", async () => {
+  const bot = addFakeBot(corridor());
+  bot.pathfinder.partialTicks = 3;
+  const plan = await callTool("planPath", { username: bot.username, x: 12, y: 1, z: 0 });
+  assert.deepEqual([plan.status, plan.reachable, plan.length], ["success", true, 12]);
+
+  bot.pathfinder.partialTicks = Infinity;
+  const started = Date.now();
+  const stuck = await callTool("planPath", { username: bot.username, x: 12, y: 1, z: 0, timeoutMs: 100 });
+  assert.deepEqual([stuck.status, stuck.reachable, stuck.length], ["timeout", false, 6]);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test("drops deeper than the caller's threshold are flagged without changing the search", async () => {
+  const world = corridor();
+  world.fill({ x: 3, y: -2, z: 0 }, { x: 3, y: 0, z: 0 }, "air");
+  const bot = addFakeBot(world);
+  const plan = await callTool("planPath", { username: bot.username, x: 3, y: -2, z: 0, maxDropDown: 0 });
+  assert.deepEqual(plan.hazards.map((h: any) => [h.type, h.at.y]), [["drop", 0], ["drop", -1], ["drop", -2]]);
+  assert.deepEqual((await callTool("planPath", { username: bot.username, x: 3, y: -2, z: 0 })).hazards, []);
+});
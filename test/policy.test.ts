@@ -0,0 +1,163 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, callToolViaServer, resetBots, useConfig, resetConfig } from "./support/harness.js";
+
+afterEach(async () => {
+  resetBots();
+  await resetConfig();
+});
+
+const spawn = { name: "spawn", min: { x: -5, y: -64, z: -5 }, max: { x: 5, y: 320, z: 5 } };
+
+test("denied tools never reach their handler", async () => {
+  await useConfig({ policy: { tools: { deny: ["dance"] } } });
+  const bot = addFakeBot(new FakeWorld());
+  const res = await callToolViaServer("dance", { username: bot.username });
+  assert.equal(res.error, "policy_denied");
+  assert.equal(res.rule, "tool_denied");
+});
+
+test("an allow list blocks everything else", async () => {
+  await useConfig({ policy: { tools: { allow: ["getPosition"] } } });
+  const bot = addFakeBot(new FakeWorld());
+  assert.equal((await callToolViaServer("getPosition", { username: bot.username })).ok, true);
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "hi" })).rule, "tool_not_allowed");
+});
+
+test("slash commands are checked against deny and allow patterns", async () => {
+  await useConfig("policy:\n  commands:\n    allow: ['^/(give|tp)\\b']\n    deny: ['@e']\n", ".yaml");
+  const bot = addFakeBot(new FakeWorld());
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/op Tester" })).rule, "command_not_allowed");
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/tp @e ~ ~10 ~" })).rule, "command_denied");
+  assert.equal((await callToolViaServer("buildSomething", { username: bot.username, commands: ["give Tester dirt", "kill @e"] })).rule, "command_denied");
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/give Tester dirt" })).ok, true);
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "plain chat is not a command" })).ok, true);
+  assert.deepEqual(bot.chatLog, ["/give Tester dirt", "plain chat is not a command"]);
+});
+
+test("protected regions stop digging, placing and block-editing commands", async () => {
+  await useConfig({ policy: { protectedRegions: [spawn] } });
+  const world = new FakeWorld();
+  world.setBlock({ x: 1, y: 0, z: 1 }, "stone");
+  const bot = addFakeBot(world, { position: { x: 8.5, y: 1, z: 8.5 }, inventory: [{ name: "dirt", count: 4 }] });
+  const dig = await callToolViaServer("digBlock", { username: bot.username, x: 1, y: 0, z: 1 });
+  assert.equal(dig.rule, "protected_region");
+  assert.equal(dig.region.name, "spawn");
+  assert.equal(world.getBlockName({ x: 1, y: 0, z: 1 }), "stone");
+  assert.equal((await callToolViaServer("placeBlockAt", { username: bot.username, itemName: "dirt", x: 0, y: 1, z: 0 })).rule, "protected_region");
+  // ~ resolves against the bot at (8, 1, 8), so this fill reaches back into spawn
+  assert.equal((await callToolViaServer("buildSomething", { username: bot.username, commands: ["/fill ~-4 ~ ~-4 ~ ~ ~ stone"] })).rule, "protected_region");
+  assert.equal((await callToolViaServer("buildSomething", { username: bot.username, commands: ["/setblock ~ ~ ~ stone"] })).ok, true);
+});
+
+test("block edits wrapped in /execute, /clone destinations and /place are checked too", async () => {
+  await useConfig({ policy: { protectedRegions: [spawn] } });
+  const world = new FakeWorld();
+  world.setBlock({ x: 9, y: 0, z: 9 }, "stone");
+  const bot = addFakeBot(world, { position: { x: 20.5, y: 1, z: 20.5 }, inventory: [{ name: "lava_bucket", count: 1 }] });
+  const rule = async (message: string) => (await callToolViaServer("sendChat", { username: bot.username, message })).rule;
+  assert.equal(await rule("/execute positioned 0 1 0 run fill ~ ~ ~ ~2 ~2 ~2 stone"), "protected_region");
+  assert.equal(await rule("/execute as @a run setblock 1 1 1 tnt"), "protected_region");
+  assert.equal(await rule("/execute at @p run setblock ~ ~ ~ tnt"), "protected_region");
+  assert.equal(await rule("/clone 20 1 20 22 3 22 4 1 4"), "protected_region");
+  assert.equal(await rule("/place feature minecraft:oak 30 1 30"), "protected_region");
+  assert.equal(await rule("/data merge block 0 1 0 {Items:[]}"), "protected_region");
+  assert.equal(await rule("/execute in minecraft:the_nether run setblock 100 1 100 stone"), "protected_region");
+  // Outside the region, or not editing blocks at all
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/clone 0 1 0 2 3 2 20 1 20" })).ok, true);
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/execute positioned 40 1 40 run fill ~ ~ ~ ~2 ~2 ~2 stone" })).ok, true);
+  assert.equal((await callToolViaServer("sendChat", { username: bot.username, message: "/execute as @a run say hi" })).ok, true);
+  const used = await callToolViaServer("useItemOnBlockOrEntity", { username: bot.username, x: 2, y: 0, z: 2 });
+  assert.equal(used.rule, "protected_region");
+});
+
+test("mineResource skips blocks inside protected regions", async () => {
+  await useConfig({ policy: { protectedRegions: [spawn] } });
+  const world = new FakeWorld();
+  world.setBlock({ x: 1, y: 0, z: 0 }, "stone");
+  world.setBlock({ x: 9, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  const res = await callToolViaServer("mineResource", { username: bot.username, blockName: "stone", count: 2 });
+  assert.equal(res.completed, 1);
+  assert.equal(world.getBlockName({ x: 1, y: 0, z: 0 }), "stone");
+  assert.equal(world.getBlockName({ x: 9, y: 0, z: 0 }), "air");
+});
+
+test("blocks broken per minute are limited per bot", async () => {
+  await useConfig({ policy: { limits: { blocksBrokenPerMinute: 2 } } });
+  const world = new FakeWorld();
+  world.fill({ x: 1, y: 0, z: 0 }, { x: 4, y: 0, z: 0 }, "dirt");
+  const bot = addFakeBot(world, { inventory: [{ name: "wooden_shovel", count: 1 }] });
+  assert.equal((await callToolViaServer("digBlock", { username: bot.username, x: 1, y: 0, z: 0 })).ok, true);
+  const mined = await callToolViaServer("mineResource", { username: bot.username, blockName: "dirt", count: 3 });
+  assert.equal(mined.completed, 1);
+  assert.equal(mined.error, "policy_denied");
+  assert.equal(mined.rule, "rate_limit");
+  const denied = await callToolViaServer("digBlock", { username: bot.username, x: 4, y: 0, z: 0 });
+  assert.equal(denied.rule, "rate_limit");
+  assert.ok(denied.retryAfterMs > 0 && denied.retryAfterMs <= 60000);
+  const other = addFakeBot(world, { username: "Other" });
+  assert.equal((await callToolViaServer("digBlock", { username: other.username, x: 4, y: 0, z: 0 })).ok, true);
+});
+
+test("gatherSeeds skips protected plants and stops at the break budget", async () => {
+  await useConfig({ policy: { protectedRegions: [spawn], limits: { blocksBrokenPerMinute: 2 } } });
+  const world = new FakeWorld();
+  world.setBlock({ x: 4, y: 1, z: 4 }, "fern");
+  world.fill({ x: 7, y: 1, z: 9 }, { x: 9, y: 1, z: 9 }, "fern");
+  const bot = addFakeBot(world, { position: { x: 8.5, y: 1, z: 8.5 } });
+  const res = await callToolViaServer("gatherSeeds", { username: bot.username });
+  assert.equal(res.rule, "rate_limit");
+  assert.equal(res.broken, 2);
+  assert.equal(world.getBlockName({ x: 4, y: 1, z: 4 }), "fern");
+  assert.equal([7, 8, 9].filter(x => world.getBlockName({ x, y: 1, z: 9 }) === "air").length, 2);
+});
+
+test("the pathfinder may not dig inside protected regions or past the break budget", async () => {
+  await useConfig({ policy: { protectedRegions: [spawn], limits: { blocksBrokenPerMinute: 1 } } });
+  const world = new FakeWorld();
+  world.fill({ x: 7, y: 1, z: 0 }, { x: 8, y: 1, z: 0 }, "dirt");
+  const bot = addFakeBot(world, { position: { x: 6.5, y: 1, z: 2.5 } });
+  await callTool("goToKnownLocation", { username: bot.username, x: 6, y: 1, z: 3 });
+  const movements: any = bot.pathfinder.movements;
+  const breakCost = (pos: { x: number; y: number; z: number }) => movements.exclusionAreasBreak.reduce((n: number, f: any) => n + f(world.blockAt(pos)), 0);
+  const placeCost = (pos: { x: number; y: number; z: number }) => movements.exclusionAreasPlace.reduce((n: number, f: any) => n + f(world.blockAt(pos)), 0);
+  assert.equal(breakCost({ x: 3, y: 1, z: 0 }), 100);
+  assert.equal(placeCost({ x: 3, y: 1, z: 0 }), 100);
+  assert.equal(breakCost({ x: 7, y: 1, z: 0 }), 0);
+  assert.equal(placeCost({ x: 7, y: 1, z: 0 }), 0);
+
+  // Digs the pathfinder makes count toward the budget like any other
+  await bot.dig(world.blockAt({ x: 7, y: 1, z: 0 }));
+  assert.equal(breakCost({ x: 8, y: 1, z: 0 }), 100);
+  assert.equal((await callToolViaServer("digBlock", { username: bot.username, x: 8, y: 1, z: 0 })).rule, "rate_limit");
+});
+
+test("a queued dig is checked against the budget again when it starts", async () => {
+  await useConfig({ policy: { limits: { blocksBrokenPerMinute: 1 } } });
+  const world = new FakeWorld();
+  world.setBlock({ x: 2, y: 0, z: 0 }, "stone");
+  world.setBlock({ x: 4, y: 0, z: 0 }, "dirt");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  let release!: () => void;
+  const gate = new Promise<void>(r => { release = r; });
+  const collect = bot.collectBlock.collect;
+  bot.collectBlock.collect = async (target: any) => { await gate; return collect(target); };
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTasks: true } });
+
+  const mining = callToolViaServer("mineResource", { username: bot.username, blockName: "stone", count: 1 });
+  await new Promise(r => setTimeout(r, 20));
+  // Under budget when it arrives, so it waits in the queue
+  const dig = callToolViaServer("digBlock", { username: bot.username, x: 4, y: 0, z: 0 });
+  await new Promise(r => setTimeout(r, 20));
+  release();
+  assert.equal((await mining).completed, 1);
+  const denied = await dig;
+  assert.equal(denied.rule, "rate_limit");
+  assert.ok(denied.queuedMs >= 0);
+  assert.equal(world.getBlockName({ x: 4, y: 0, z: 0 }), "dirt");
+});
+
+test("invalid command patterns are rejected when the config loads", async () => {
+  await assert.rejects(useConfig({ policy: { commands: { deny: ["(unclosed"] } } }), /invalid_config policy\.commands\.deny\[0\]/);
+});
@@ -0,0 +1,33 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+test("tills dirt within hydration range of water", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -1, y: 0, z: -1 }, { x: 1, y: 0, z: 1 }, "dirt");
+  world.setBlock({ x: 0, y: 0, z: 0 }, "water");
+  const bot = addFakeBot(world, { inventory: [{ name: "wooden_hoe", count: 1 }] });
+  const res = await callTool("prepareLandForFarming", { username: bot.username, radius: 1 });
+  assert.equal(res.ok, true);
+  assert.equal(res.tilled, 8);
+  assert.equal(world.getBlockName({ x: 1, y: 0, z: 1 }), "farmland");
+  assert.equal(world.getBlockName({ x: 0, y: 0, z: 0 }), "water");
+});
+
+test("reports no_water_nearby when hydration is required", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -1, y: 0, z: -1 }, { x: 1, y: 0, z: 1 }, "grass_block");
+  const bot = addFakeBot(world, { inventory: [{ name: "wooden_hoe", count: 1 }] });
+  const res = await callTool("prepareLandForFarming", { username: bot.username, radius: 1 });
+  assert.equal(res.ok, false);
+  assert.equal(res.reason, "no_water_nearby");
+  assert.equal(world.getBlockName({ x: 0, y: 0, z: 0 }), "grass_block");
+});
+
+test("needs a hoe", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world);
+  await assert.rejects(callTool("prepareLandForFarming", { username: bot.username }), /No hoe/);
+});
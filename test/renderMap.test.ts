@@ -0,0 +1,66 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+// A 9x9 meadow around the bot with a pond, a tree, a chest, an ore, a pillar and a hole
+function meadow(): FakeWorld {
+  const world = new FakeWorld();
+  world.fill({ x: -4, y: 0, z: -4 }, { x: 4, y: 0, z: 4 }, "grass_block");
+  world.fill({ x: 2, y: 0, z: -1 }, { x: 3, y: 0, z: -1 }, "water");
+  world.fill({ x: -2, y: 1, z: -2 }, { x: -2, y: 2, z: -2 }, "oak_log");
+  world.setBlock({ x: -2, y: 3, z: -2 }, "oak_leaves");
+  world.setBlock({ x: 3, y: 0, z: 3 }, "iron_ore");
+  world.setBlock({ x: 0, y: 1, z: 2 }, "chest");
+  world.fill({ x: -3, y: 1, z: 3 }, { x: -3, y: 3, z: 3 }, "stone");
+  world.setBlock({ x: 1, y: 0, z: 3 }, "air");
+  // Flowers are looked through
+  world.setBlock({ x: 1, y: 1, z: 1 }, "poppy");
+  world.addEntity({ type: "mob", name: "zombie", position: { x: 4.5, y: 1, z: 0.5 } });
+  world.addEntity({ type: "player", username: "Steve", position: { x: -3.5, y: 1, z: -3.5 } });
+  world.addEntity({ type: "animal", name: "cow", position: { x: 2.5, y: 1, z: 2.5 } });
+  return world;
+}
+
+test("top-down map marks terrain, entities and the bot's heading", async () => {
+  const bot = addFakeBot(meadow());
+  const res = await callTool("renderMap", { username: bot.username, radius: 4 });
+  assert.equal(res.mode, "top");
+  assert.deepEqual(res.bounds, { minX: -4, maxX: 4, minZ: -4, maxZ: 4 });
+  assert.deepEqual(res.map.split("\n"), [
+    "P........",
+    ".........",
+    "..T......",
+    "......~~.",
+    "....^...H",
+    ".........",
+    "....C.m..",
+    ".#... .$.",
+    "........."
+  ]);
+  assert.equal(res.legend.$, "ore");
+  assert.equal(res.legend["^"], "you, facing north");
+  assert.equal(res.legend["%"], undefined, "only symbols on the map are explained");
+
+  bot.entity.yaw = -Math.PI / 2;
+  const east = await callTool("renderMap", { username: bot.username, radius: 1 });
+  assert.equal(east.map.split("\n")[1], ".>.");
+});
+
+test("heightmap and slice modes", async () => {
+  const bot = addFakeBot(meadow());
+  const height = await callTool("renderMap", { username: bot.username, radius: 4, mode: "height" });
+  const rows = height.map.split("\n");
+  assert.equal(rows[2], "003000000");
+  assert.equal(rows[7], "03000 000");
+  assert.match(height.legend["0"], /y=0/);
+
+  const slice = await callTool("renderMap", { username: bot.username, radius: 4, mode: "slice", y: 2 });
+  assert.equal(slice.y, 2);
+  assert.equal(slice.map.split("\n")[2], "  T      ");
+  assert.equal(slice.map.split("\n")[7], " #       ");
+  assert.equal(slice.legend[" "], "air");
+
+  assert.equal((await callTool("renderMap", { username: bot.username, mode: "iso" })).error, "invalid_mode");
+});
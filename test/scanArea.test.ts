@@ -0,0 +1,20 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, addFakeBot, callTool, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+test("counts solid blocks and nearby entities", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -1, y: 0, z: -1 }, { x: 1, y: 0, z: 1 }, "stone");
+  world.setBlock({ x: 2, y: 1, z: 0 }, "oak_log");
+  world.setBlock({ x: 0, y: 1, z: 2 }, "water");
+  world.addEntity({ name: "zombie", type: "hostile", position: { x: 3, y: 1, z: 0 } });
+  world.addEntity({ name: "cow", type: "animal", position: { x: 40, y: 1, z: 0 } });
+  const bot = addFakeBot(world);
+  const res = await callTool("scanArea", { username: bot.username, radius: 4 });
+  assert.equal(res.ok, true);
+  assert.deepEqual(res.blocks, { stone: 9, oak_log: 1 });
+  assert.equal(res.samples.stone.length, 5);
+  assert.deepEqual(res.entities.map((e: any) => e.name), ["zombie"]);
+});
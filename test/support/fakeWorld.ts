@@ -0,0 +1,430 @@
+import { EventEmitter } from "node:events";
+import { createRequire } from "node:module";
+import { Vec3 } from "vec3";
+import type { Bot } from "mineflayer";
+import type { BotFacade } from "../../src/botFacade.js";
+
+const require = createRequire(import.meta.url);
+const minecraftData = require("minecraft-data");
+
+export const FAKE_VERSION = "1.20.4";
+
+type XYZ = { x: number; y: number; z: number };
+type FakeItem = { type: number; name: string; count: number; slot: number; metadata: number; stackSize: number; displayName: string };
+type FakeRecipeItem = { id: number; metadata: number | null; count: number };
+type FakeRecipe = {
+  result: FakeRecipeItem;
+  inShape?: FakeRecipeItem[][];
+  ingredients?: FakeRecipeItem[];
+  delta: FakeRecipeItem[];
+  requiresTable: boolean;
+};
+export type FakeEntity = { id: number; name?: string; username?: string; displayName?: string; type: string; position: Vec3; metadata?: unknown[]; passengers?: unknown[]; rideable?: boolean };
+
+const key = (p: XYZ) => `${Math.floor(p.x)},${Math.floor(p.y)},${Math.floor(p.z)}`;
+
+// Sparse in-memory block store plus entities. Unset positions read as air.
+export class FakeWorld {
+  readonly registry: any;
+  readonly blocks = new Map<string, string>();
+  readonly entities: Record<number, FakeEntity> = {};
+  // Portal block name -> where standing in one of those blocks takes a bot
+  readonly portals = new Map<string, { world: FakeWorld; arrival: XYZ }>();
+  dimension = "overworld";
+  private nextEntityId = 1;
+
+  constructor(version = FAKE_VERSION) {
+    this.registry = minecraftData(version);
+  }
+
+  linkPortal(blockName: string, world: FakeWorld, arrival: XYZ) {
+    this.portals.set(blockName, { world, arrival });
+  }
+
+  setBlock(pos: XYZ, name: string) {
+    if (!this.registry.blocksByName[name]) throw new Error(`Unknown block ${name}`);
+    if (name === "air") this.blocks.delete(key(pos));
+    else this.blocks.set(key(pos), name);
+  }
+
+  fill(from: XYZ, to: XYZ, name: string) {
+    for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+      for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+        for (let z = Math.min(from.z, to.z); z <= Math.max(from.z, to.z); z++) this.setBlock({ x, y, z }, name);
+      }
+    }
+  }
+
+  getBlockName(pos: XYZ): string {
+    return this.blocks.get(key(pos)) ?? "air";
+  }
+
+  blockAt(pos: XYZ) {
+    const name = this.getBlockName(pos);
+    const data = this.registry.blocksByName[name];
+    return {
+      name,
+      type: data.id,
+      displayName: data.displayName,
+      metadata: 0,
+      position: new Vec3(Math.floor(pos.x), Math.floor(pos.y), Math.floor(pos.z)),
+      boundingBox: data.boundingBox,
+      // Full cubes only, enough for mineflayer-pathfinder's Movements to walk the world
+      shapes: data.boundingBox === "block" ? [[0, 0, 0, 1, 1, 1]] : [],
+      hardness: data.hardness,
+      diggable: data.diggable,
+      harvestTools: data.harvestTools,
+      drops: data.drops
+    };
+  }
+
+  addEntity(entity: Omit<FakeEntity, "id" | "position"> & { position: XYZ }): FakeEntity {
+    const e: FakeEntity = { ...entity, id: this.nextEntityId++, position: new Vec3(entity.position.x, entity.position.y, entity.position.z) };
+    this.entities[e.id] = e;
+    return e;
+  }
+
+  createBot(options: { username?: string; position?: XYZ; inventory?: Array<{ name: string; count: number }> } = {}): FakeBot {
+    return new FakeBot(this, options);
+  }
+}
+
+// Enough of mineflayer's Bot (and the pathfinder/collectblock plugins) for handlers to run offline.
+// Movement is instant: setting a pathfinder goal teleports the bot onto it.
+export class FakeBot extends EventEmitter {
+  world: FakeWorld;
+  username: string;
+  version = FAKE_VERSION;
+  registry: any;
+  health = 20;
+  food = 20;
+  oxygenLevel = 20;
+  game: { gameMode: string; dimension: string };
+  entity: any;
+  heldItem: FakeItem | null = null;
+  readonly chatLog: string[] = [];
+  readonly goals: any[] = [];
+  // Packets written straight to the client, e.g. vehicle_move while driving
+  readonly packets: Array<{ name: string; params: any }> = [];
+  vehicle: FakeEntity | null = null;
+  private lookTarget: Vec3 | null = null;
+  private cartDir: Vec3 | null = null;
+  readonly inventory: any;
+  private slots: Array<FakeItem | null> = new Array(46).fill(null);
+
+  constructor(world: FakeWorld, options: { username?: string; position?: XYZ; inventory?: Array<{ name: string; count: number }> }) {
+    super();
+    this.world = world;
+    this.game = { gameMode: "survival", dimension: world.dimension };
+    this.registry = world.registry;
+    this.username = options.username ?? "Tester";
+    const p = options.position ?? { x: 0.5, y: 1, z: 0.5 };
+    this.entity = { id: 0, type: "player", username: this.username, height: 1.62, yaw: 0, pitch: 0, position: new Vec3(p.x, p.y, p.z), velocity: new Vec3(0, 0, 0) };
+    const self = this;
+    this.inventory = {
+      get slots() { return self.slots; },
+      items: () => self.slots.slice(9, 45).filter((s): s is FakeItem => !!s),
+      count: (id: number) => self.slots.slice(9, 45).reduce((n, s) => n + (s && s.type === id ? s.count : 0), 0),
+      emptySlotCount: () => self.slots.slice(9, 45).filter(s => !s).length,
+      firstEmptyInventorySlot: () => { const i = self.slots.findIndex((s, n) => n >= 9 && n < 45 && !s); return i < 0 ? null : i; }
+    };
+    for (const it of options.inventory ?? []) this.addItem(it.name, it.count);
+  }
+
+  get entities() {
+    return this.world.entities;
+  }
+
+  addItem(name: string, count: number) {
+    const data = this.registry.itemsByName[name];
+    if (!data) throw new Error(`Unknown item ${name}`);
+    let left = count;
+    for (let i = 9; i < 45 && left > 0; i++) {
+      const s = this.slots[i];
+      if (s && s.type === data.id && s.count < s.stackSize) { const add = Math.min(left, s.stackSize - s.count); s.count += add; left -= add; }
+    }
+    for (let i = 9; i < 45 && left > 0; i++) {
+      if (this.slots[i]) continue;
+      const add = Math.min(left, data.stackSize);
+      this.slots[i] = { type: data.id, name, count: add, slot: i, metadata: 0, stackSize: data.stackSize, displayName: data.displayName };
+      left -= add;
+    }
+    if (left > 0) throw new Error("inventory_full");
+  }
+
+  removeItem(id: number, count: number) {
+    let left = count;
+    for (let i = 9; i < 45 && left > 0; i++) {
+      const s = this.slots[i];
+      if (!s || s.type !== id) continue;
+      const take = Math.min(left, s.count);
+      s.count -= take; left -= take;
+      if (s.count === 0) { this.slots[i] = null; if (this.heldItem === s) this.heldItem = null; }
+    }
+    if (left > 0) throw new Error(`missing ${count} of item ${id}`);
+  }
+
+  countItem(name: string): number {
+    const data = this.registry.itemsByName[name];
+    return data ? this.inventory.count(data.id) : 0;
+  }
+
+  blockAt(pos: XYZ) {
+    return this.world.blockAt(pos);
+  }
+
+  // First solid block along the view direction, sampled in small steps from eye height
+  blockAtCursor(maxDistance = 256) {
+    const { yaw, pitch } = this.entity;
+    const dir = new Vec3(-Math.sin(yaw) * Math.cos(pitch), Math.sin(pitch), -Math.cos(yaw) * Math.cos(pitch));
+    const eye = this.entity.position.offset(0, 1.62, 0);
+    for (let t = 0; t <= maxDistance; t += 0.05) {
+      const block = this.world.blockAt(eye.plus(dir.scaled(t)));
+      if (block.boundingBox === "block") return block;
+    }
+    return null;
+  }
+
+  findBlocks(options: { matching: any; maxDistance?: number; count?: number; point?: XYZ }): Vec3[] {
+    const origin = options.point ? new Vec3(options.point.x, options.point.y, options.point.z) : this.entity.position;
+    const max = options.maxDistance ?? 16;
+    const matches = (b: any) => typeof options.matching === "function" ? options.matching(b)
+      : Array.isArray(options.matching) ? options.matching.includes(b.type) : options.matching === b.type;
+    const found: Vec3[] = [];
+    for (const k of this.world.blocks.keys()) {
+      const [x, y, z] = k.split(",").map(Number);
+      const pos = new Vec3(x, y, z);
+      if (pos.distanceTo(origin) > max) continue;
+      if (matches(this.world.blockAt(pos))) found.push(pos);
+    }
+    found.sort((a, b) => a.distanceTo(origin) - b.distanceTo(origin));
+    return found.slice(0, options.count ?? 1);
+  }
+
+  findBlock(options: { matching: any; maxDistance?: number; point?: XYZ }) {
+    const [pos] = this.findBlocks({ ...options, count: 1 });
+    return pos ? this.world.blockAt(pos) : null;
+  }
+
+  async dig(block: any) {
+    this.world.setBlock(block.position, "air");
+    this.emit("diggingCompleted", this.world.blockAt(block.position));
+  }
+
+  async placeBlock(reference: any, face: XYZ) {
+    if (!this.heldItem) throw new Error("no_item_in_hand");
+    const name = this.heldItem.name;
+    if (!this.registry.blocksByName[name]) throw new Error(`${name} is not placeable`);
+    const target = reference.position.plus(new Vec3(face.x, face.y, face.z));
+    if (this.world.getBlockName(target) !== "air") throw new Error("target_occupied");
+    this.world.setBlock(target, name);
+    this.removeItem(this.heldItem.type, 1);
+  }
+
+  // Only hoe-on-dirt is modelled: tills to farmland when the block above is clear
+  async activateBlock(block: any) {
+    const held = this.heldItem?.name ?? "";
+    const above = this.world.blockAt(block.position.offset(0, 1, 0));
+    if (held.endsWith("_hoe") && (block.name === "dirt" || block.name === "grass_block") && above.boundingBox === "empty") {
+      this.world.setBlock(block.position, "farmland");
+    }
+  }
+
+  async equip(item: any, _destination: string) {
+    const slot = this.slots.find(s => s && s.type === (typeof item === "number" ? item : item.type));
+    if (!slot) throw new Error("item_not_in_inventory");
+    this.heldItem = slot;
+  }
+
+  recipesFor(itemType: number, _metadata: number | null, minResultCount: number | null, craftingTable: unknown): FakeRecipe[] {
+    return this.recipesById(itemType).filter(r => {
+      if (r.requiresTable && !craftingTable) return false;
+      const times = Math.ceil((minResultCount ?? 1) / r.result.count);
+      return r.delta.every(d => this.inventory.count(d.id) + d.count * times >= 0);
+    });
+  }
+
+  async craft(recipe: FakeRecipe, count = 1, craftingTable?: unknown) {
+    if (recipe.requiresTable && !craftingTable) throw new Error("Recipe requires craftingTable, but one was not supplied");
+    for (let i = 0; i < count; i++) {
+      for (const d of recipe.delta) {
+        if (d.count < 0 && this.inventory.count(d.id) < -d.count) throw new Error("missing ingredient");
+      }
+      for (const d of recipe.delta) {
+        if (d.count < 0) this.removeItem(d.id, -d.count);
+        else this.addItem(this.registry.items[d.id].name, d.count);
+      }
+    }
+  }
+
+  async lookAt(point: XYZ) {
+    this.lookTarget = new Vec3(point.x, point.y, point.z);
+  }
+
+  readonly _client = {
+    write: (name: string, params: any) => { this.packets.push({ name, params }); }
+  };
+
+  // Mounting succeeds unless the entity is marked `rideable: false` (an untamed horse, say)
+  mount(entity: FakeEntity) {
+    if (entity.rideable === false) return;
+    setImmediate(() => {
+      this.vehicle = entity;
+      entity.passengers = [this.entity];
+      this.emit("mount");
+    });
+  }
+
+  dismount() {
+    const vehicle = this.vehicle;
+    if (!vehicle) return;
+    setImmediate(() => {
+      vehicle.passengers = [];
+      this.vehicle = null;
+      this.entity.position = vehicle.position.offset(1, 0, 0);
+      this.emit("dismount", vehicle);
+    });
+  }
+
+  // A ridden minecart moves one rail block per push, keeping its direction and taking single turns
+  moveVehicle(_left: number, forward: number) {
+    const cart = this.vehicle;
+    if (!cart || cart.name !== "minecart" || forward <= 0) return;
+    const at = cart.position.floored();
+    const isRail = (p: Vec3) => /rail$/.test(this.world.getBlockName(p));
+    if (!this.cartDir && this.lookTarget) {
+      const d = this.lookTarget.minus(cart.position);
+      this.cartDir = Math.abs(d.x) >= Math.abs(d.z) ? new Vec3(Math.sign(d.x), 0, 0) : new Vec3(0, 0, Math.sign(d.z));
+    }
+    const dir = this.cartDir ?? new Vec3(1, 0, 0);
+    const turns = [dir, new Vec3(dir.z, 0, -dir.x), new Vec3(-dir.z, 0, dir.x)];
+    const next = turns.find(t => isRail(at.plus(t)));
+    if (!next) return;
+    this.cartDir = next;
+    cart.position = at.plus(next).offset(0.5, 0, 0.5);
+  }
+
+  chat(message: string) {
+    this.chatLog.push(message);
+  }
+
+  async waitForTicks(_ticks: number) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  end() {
+    this.emit("end", "disconnect.quitting");
+  }
+
+  // A linked portal moves the bot to the other world shortly after it steps in, like the real teleport delay
+  private enterPortalAtFeet() {
+    const link = this.world.portals.get(this.world.getBlockName(this.entity.position));
+    if (!link) return;
+    setTimeout(() => {
+      this.world = link.world;
+      this.game.dimension = link.world.dimension;
+      this.entity.position = new Vec3(link.arrival.x, link.arrival.y, link.arrival.z);
+      this.emit("respawn");
+    }, 20);
+  }
+
+  loadPlugin(_plugin: unknown) {}
+
+  readonly pathfinder = {
+    movements: null as unknown,
+    goal: null as any,
+    setMovements: (movements: unknown) => { this.pathfinder.movements = movements; },
+    setGoal: (goal: any) => {
+      this.pathfinder.goal = goal;
+      if (!goal) return;
+      this.goals.push(goal);
+      if (Number.isFinite(goal.x) && Number.isFinite(goal.z)) {
+        const y = Number.isFinite(goal.y) ? goal.y : this.entity.position.y;
+        this.entity.position = new Vec3(Math.floor(goal.x) + 0.5, y, Math.floor(goal.z) + 0.5);
+        this.enterPortalAtFeet();
+      }
+    },
+    goto: async (goal: any) => { this.pathfinder.setGoal(goal); },
+    // Searches that report 'partial' (an unfinished A* tick with half the path) before settling
+    partialTicks: 0,
+    getPathTo: (_movements: unknown, goal: any) => this.computePath(goal),
+    getPathFromTo: (_movements: unknown, _start: unknown, goal: any) => this.pathSearch(goal),
+    stop: () => { this.pathfinder.goal = null; },
+    isMoving: () => false
+  };
+
+  private *pathSearch(goal: any) {
+    const result = this.computePath(goal);
+    for (let i = 0; i < this.pathfinder.partialTicks; i++) {
+      yield { result: { ...result, status: "partial", path: result.path.slice(0, Math.floor(result.path.length / 2)) } };
+    }
+    yield { result };
+  }
+
+  // Straight line along x, then z, then y. Solid blocks in the way are broken, gaps below are
+  // bridged, and bedrock means there is no path.
+  private computePath(goal: any) {
+    const path: any[] = [];
+    let p = this.entity.position.floored();
+    const target = new Vec3(goal.x, goal.y ?? p.y, goal.z);
+    const solid = (v: Vec3) => this.world.blockAt(v).boundingBox === "block";
+    while (p.distanceTo(target) > Math.max(goal.range ?? 0, 0.5)) {
+      const d = target.minus(p);
+      const step = d.x ? new Vec3(Math.sign(d.x), 0, 0) : d.z ? new Vec3(0, 0, Math.sign(d.z)) : new Vec3(0, Math.sign(d.y), 0);
+      p = p.plus(step);
+      if ([p, p.offset(0, 1, 0)].some(v => this.world.getBlockName(v) === "bedrock")) {
+        return { status: "noPath", cost: path.length, time: 1, visitedNodes: path.length, path };
+      }
+      const toBreak = [p, p.offset(0, 1, 0)].filter(solid).map(v => ({ x: v.x, y: v.y, z: v.z }));
+      const below = p.offset(0, -1, 0);
+      const toPlace = !solid(below) && this.world.getBlockName(below) !== "water" ? [{ x: below.x, y: below.y, z: below.z }] : [];
+      path.push({ x: p.x, y: p.y, z: p.z, toBreak, toPlace, cost: 1 + toBreak.length + toPlace.length });
+    }
+    return { status: "success", cost: path.reduce((n, m) => n + m.cost, 0), time: 1, visitedNodes: path.length, path };
+  }
+
+  // Breaking a block puts its first drop straight into the inventory
+  readonly collectBlock = {
+    collect: async (target: any) => {
+      const block = this.world.blockAt(target.position ?? target);
+      if (block.name === "air") return;
+      await this.dig(block);
+      const drop = block.drops?.[0];
+      const id = typeof drop === "number" ? drop : drop?.drop?.id ?? drop?.id;
+      if (id != null && this.registry.items[id]) this.addItem(this.registry.items[id].name, 1);
+    },
+    cancelTask: () => {}
+  };
+
+  private recipeCache = new Map<number, FakeRecipe[]>();
+
+  // minecraft-data stores bare ids; mineflayer hands handlers prismarine-recipe objects with RecipeItems and a delta
+  private recipesById(itemType: number): FakeRecipe[] {
+    const cached = this.recipeCache.get(itemType);
+    if (cached) return cached;
+    const toItem = (raw: any, count = 1): FakeRecipeItem | null => {
+      if (raw == null) return null;
+      if (typeof raw === "number") return { id: raw, metadata: null, count };
+      if (Array.isArray(raw)) return { id: raw[0], metadata: raw[1] ?? null, count };
+      return { id: raw.id, metadata: raw.metadata ?? null, count: raw.count ?? count };
+    };
+    const recipes = (this.registry.recipes[itemType] ?? []).map((raw: any): FakeRecipe => {
+      const result = toItem(raw.result)!;
+      const inShape = raw.inShape?.map((row: any[]) => row.map(cell => toItem(cell)));
+      const ingredients = raw.ingredients?.map((i: any) => toItem(i)).filter(Boolean);
+      const used = new Map<number, number>();
+      for (const it of [...(inShape?.flat() ?? []), ...(ingredients ?? [])]) if (it) used.set(it.id, (used.get(it.id) ?? 0) - it.count);
+      used.set(result.id, (used.get(result.id) ?? 0) + result.count);
+      const delta = [...used].map(([id, count]) => ({ id, metadata: null, count }));
+      const requiresTable = inShape ? (inShape.length > 2 || inShape.some((r: unknown[]) => r.length > 2)) : (ingredients?.length ?? 0) > 4;
+      return { result, inShape, ingredients, delta, requiresTable };
+    });
+    this.recipeCache.set(itemType, recipes);
+    return recipes;
+  }
+}
+
+// Handlers are typed against mineflayer's Bot; the fake only implements the BotFacade slice of it
+export function asBot(bot: FakeBot): Bot {
+  return bot as unknown as BotFacade as unknown as Bot;
+}
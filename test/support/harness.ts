@@ -0,0 +1,60 @@
+import { mkdtempSync } from "node:fs";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setBotFactory } from "../../src/botFacade.js";
+import { bots, toolRegistry, sendToolCall, loadServerConfig, useServerConfig } from "../../src/index.js";
+import { FakeWorld, FakeBot, asBot } from "./fakeWorld.js";
+
+export { FakeWorld, FakeBot };
+
+// Waypoints persist to disk; keep test runs out of the real home directory
+process.env.MCP_WAYPOINTS_FILE = join(mkdtempSync(join(tmpdir(), "mcp-waypoints-")), "waypoints.json");
+process.env.MCP_WORLD_MEMORY_FILE = join(mkdtempSync(join(tmpdir(), "mcp-world-memory-")), "world-memory.json");
+
+// Registers a fake bot under its username so handlers resolve it like a joined bot
+export function addFakeBot(world: FakeWorld, options: Parameters<FakeWorld["createBot"]>[0] = {}): FakeBot {
+  const bot = world.createBot(options);
+  bots.set(bot.username, asBot(bot));
+  return bot;
+}
+
+// joinGame builds bots through the facade; fake ones log in on the next tick.
+// Returns a function that restores the previous factory.
+export function useFakeServer(world: FakeWorld) {
+  const previous = setBotFactory((options) => {
+    const bot = world.createBot({ username: options.username });
+    setImmediate(() => bot.emit("login"));
+    return bot as any;
+  });
+  return () => setBotFactory(previous);
+}
+
+export function resetBots() {
+  bots.clear();
+}
+
+// Calls a tool handler directly, skipping the MCP envelope
+export async function callTool(name: string, args: Record<string, unknown>): Promise<any> {
+  const tool = toolRegistry.get(name);
+  if (!tool) throw new Error(`unknown tool ${name}`);
+  return tool.handler(args);
+}
+
+// Goes through sendToolCall like an MCP client would: validation, policy, status attachment
+export async function callToolViaServer(name: string, args: Record<string, unknown>): Promise<any> {
+  const res = await sendToolCall({ params: { name, arguments: args } });
+  return JSON.parse(res.content[0].text);
+}
+
+// Loads a config file written from `config` (YAML or JSON by extension) and makes it current
+export async function useConfig(config: unknown, ext = ".json") {
+  const dir = await mkdtemp(join(tmpdir(), "mcp-test-"));
+  const file = join(dir, `config${ext}`);
+  await writeFile(file, ext === ".json" ? JSON.stringify(config) : String(config));
+  useServerConfig(await loadServerConfig(file));
+}
+
+export async function resetConfig() {
+  await useConfig({});
+}
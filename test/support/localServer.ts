@@ -0,0 +1,52 @@
+import { createServer } from "node:net";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+
+// A flying-squid server is the oldest/most stable combo mineflayer and flying-squid both support
+export const SERVER_VERSION = "1.16.5";
+
+export async function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const srv = createServer();
+    srv.once("error", reject);
+    srv.listen(0, "127.0.0.1", () => {
+      const { port } = srv.address() as { port: number };
+      srv.close(() => resolve(port));
+    });
+  });
+}
+
+// Superflat, offline-mode, peaceful, everyone op (so /give works from chat), no world folder on disk
+export async function startLocalServer(port: number): Promise<any> {
+  const mcServer = require("flying-squid");
+  const serv = mcServer.createMCServer({
+    port,
+    "online-mode": false,
+    "max-players": 5,
+    "view-distance": 2,
+    "everybody-op": true,
+    "max-entities": 50,
+    "player-list-text": { header: "test", footer: "test" },
+    motd: "integration",
+    version: SERVER_VERSION,
+    gameMode: 0,
+    difficulty: 0,
+    kickTimeout: 10000,
+    generation: { name: "superflat", options: { worldHeight: 80 } },
+    plugins: {},
+    modpe: false,
+    logging: false,
+    noConsoleOutput: true
+  });
+  await new Promise<void>((resolve, reject) => {
+    serv.once("listening", () => resolve());
+    serv.once("error", reject);
+  });
+  return serv;
+}
+
+export async function stopLocalServer(serv: any) {
+  try { await serv?.quit?.("test finished"); } catch {}
+  try { serv?._server?.close?.(); } catch {}
+}
@@ -0,0 +1,124 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, FakeBot, addFakeBot, callToolViaServer, resetBots, resetConfig } from "./support/harness.js";
+
+afterEach(async () => {
+  resetBots();
+  await resetConfig();
+});
+
+// A bot whose block collection waits until the test releases it, so tasks stay running
+function gatedMiner(world: FakeWorld, blocks = 3): { bot: FakeBot; release: () => void } {
+  world.fill({ x: 2, y: 0, z: 0 }, { x: 1 + blocks, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  let open!: () => void;
+  const gate = new Promise<void>(r => { open = r; });
+  const collect = bot.collectBlock.collect;
+  bot.collectBlock.collect = async (target: any) => { await gate; return collect(target); };
+  return { bot, release: open };
+}
+
+const tick = () => new Promise(r => setTimeout(r, 20));
+
+test("a second task is rejected while queue mode is off", async () => {
+  const { bot, release } = gatedMiner(new FakeWorld());
+  const first = callToolViaServer("mineResource", { username: bot.username, blockName: "stone" });
+  await tick();
+  const second = await callToolViaServer("mineResource", { username: bot.username, blockName: "stone" });
+  assert.equal(second.error, "another_task_running");
+  release();
+  assert.equal((await first).ok, true);
+});
+
+test("queued tasks run in order and report how long they waited", async () => {
+  const { bot, release } = gatedMiner(new FakeWorld());
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTasks: true } });
+  const first = callToolViaServer("mineResource", { username: bot.username, blockName: "stone" });
+  await tick();
+  const second = callToolViaServer("mineResource", { username: bot.username, blockName: "stone" });
+  const third = callToolViaServer("digBlock", { username: bot.username, x: 4, y: 0, z: 0 });
+  await tick();
+  const queue = await callToolViaServer("listQueue", { username: bot.username });
+  assert.equal(queue.running.tool, "mineResource");
+  assert.deepEqual(queue.queue.map((q: any) => [q.position, q.tool]), [[1, "mineResource"], [2, "digBlock"]]);
+
+  // Let the dig jump ahead of the second mine
+  const moved = await callToolViaServer("moveQueuedTask", { username: bot.username, taskId: queue.queue[1].taskId, position: 1 });
+  assert.equal(moved.ok, true);
+  release();
+  const [r1, r2, r3] = await Promise.all([first, second, third]);
+  assert.equal(r1.ok, true);
+  assert.equal(r3.ok, true);
+  assert.ok(r3.queuedMs >= 0);
+  // The dig already took (4,0,0), so the second mine got the last remaining block
+  assert.equal(r2.completed, 1);
+  assert.equal(world(bot).getBlockName({ x: 3, y: 0, z: 0 }), "air");
+});
+
+test("a queued task keeps its id once it starts running", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: 2, y: 0, z: 0 }, { x: 3, y: 0, z: 0 }, "stone");
+  const bot = addFakeBot(world, { inventory: [{ name: "stone_pickaxe", count: 1 }] });
+  // One gate per collect, so the second task can be held while it runs
+  const gates: Array<() => void> = [];
+  const collect = bot.collectBlock.collect;
+  bot.collectBlock.collect = async (target: any) => { await new Promise<void>(r => gates.push(r)); return collect(target); };
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTasks: true } });
+
+  const first = callToolViaServer("mineResource", { username: bot.username, blockName: "stone", count: 1 });
+  await tick();
+  const second = callToolViaServer("mineResource", { username: bot.username, blockName: "stone", count: 1 });
+  await tick();
+  const queuedId = (await callToolViaServer("listQueue", { username: bot.username })).queue[0].taskId;
+  gates.shift()!();
+  await first;
+  await tick();
+  const running = (await callToolViaServer("listQueue", { username: bot.username })).running;
+  assert.equal(running.id, queuedId);
+  gates.shift()!();
+  assert.equal((await second).ok, true);
+});
+
+test("clearQueue, death and queue timeouts fail waiting tasks", async () => {
+  const { bot, release } = gatedMiner(new FakeWorld());
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTasks: true, queueTimeoutMs: 60000 } });
+  const running = callToolViaServer("mineResource", { username: bot.username, blockName: "stone" });
+  await tick();
+
+  const cleared = callToolViaServer("digBlock", { username: bot.username, x: 3, y: 0, z: 0 });
+  await tick();
+  assert.equal((await callToolViaServer("clearQueue", { username: bot.username })).cleared, 1);
+  assert.equal((await cleared).error, "queue_cleared");
+
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTimeoutMs: 30 } });
+  assert.equal((await callToolViaServer("digBlock", { username: bot.username, x: 3, y: 0, z: 0 })).error, "queue_timeout");
+
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTimeoutMs: 60000 } });
+  const doomed = callToolViaServer("digBlock", { username: bot.username, x: 3, y: 0, z: 0 });
+  await tick();
+  bot.emit("death");
+  assert.equal((await doomed).error, "bot_died");
+  assert.equal((await running).error, "bot_died");
+  release();
+});
+
+test("background jobs show queued status and can be cancelled while waiting", async () => {
+  const { bot, release } = gatedMiner(new FakeWorld());
+  await callToolViaServer("setConfig", { username: bot.username, settings: { queueTasks: true } });
+  const a = await callToolViaServer("mineResource", { username: bot.username, blockName: "stone", background: true });
+  await tick();
+  const b = await callToolViaServer("mineResource", { username: bot.username, blockName: "stone", background: true });
+  assert.equal(b.jobStatus, "queued");
+  assert.equal(b.queuePosition, 1);
+  assert.equal((await callToolViaServer("cancelJob", { jobId: b.jobId })).ok, true);
+  await tick();
+  assert.equal((await callToolViaServer("getJobStatus", { jobId: b.jobId })).job.status, "cancelled");
+  assert.equal((await callToolViaServer("listQueue", { username: bot.username })).queue.length, 0);
+  release();
+  await tick();
+  assert.equal((await callToolViaServer("getJobStatus", { jobId: a.jobId })).job.status, "completed");
+});
+
+function world(bot: FakeBot) {
+  return bot.world;
+}
@@ -0,0 +1,111 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { FakeWorld, FakeBot, addFakeBot, callTool, callToolViaServer, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+const vehicleMoves = (bot: FakeBot) => bot.packets.filter(p => p.name === "vehicle_move").map(p => p.params);
+
+test("a boat follows a water route around an island and is reported in status", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -4, y: -1, z: -4 }, { x: 24, y: 0, z: 8 }, "stone");
+  world.fill({ x: 0, y: 0, z: 0 }, { x: 20, y: 0, z: 4 }, "water");
+  // An island across the lake except for a channel at z=4
+  world.fill({ x: 10, y: 0, z: 0 }, { x: 10, y: 1, z: 3 }, "stone");
+  world.addEntity({ type: "object", name: "oak_boat", position: { x: 1.5, y: 0.4, z: 1.5 } });
+  const bot = addFakeBot(world, { position: { x: -1.5, y: 1, z: 1.5 } });
+
+  const mounted = await callTool("mountNearest", { username: bot.username, kind: "boat" });
+  assert.equal(mounted.ok, true);
+  assert.deepEqual([mounted.vehicle.name, mounted.vehicle.kind], ["oak_boat", "boat"]);
+  const riding = await callToolViaServer("getStatus", { username: bot.username });
+  assert.equal(riding.state.env.vehicle.kind, "boat");
+  assert.equal((await callTool("mountNearest", { username: bot.username })).error, "already_mounted");
+
+  const ride = await callTool("rideVehicleTo", { username: bot.username, x: 18.5, z: 1.5 });
+  assert.equal(ride.ok, true);
+  assert.equal(ride.stopReason, "arrived");
+  const moves = vehicleMoves(bot);
+  // Every step stays on the water surface and the route goes through the channel
+  assert.ok(moves.every(m => world.getBlockName({ x: m.x, y: 0, z: m.z }) === "water"));
+  assert.ok(moves.some(m => m.z >= 4));
+  assert.ok(moves.every(m => m.y === 0.4));
+
+  const off = await callTool("dismount", { username: bot.username });
+  assert.equal(off.ok, true);
+  assert.equal((await callToolViaServer("getStatus", { username: bot.username })).state.env.vehicle, null);
+  assert.equal((await callTool("dismount", { username: bot.username })).error, "not_mounted");
+});
+
+test("a boat follows every bend of a long winding channel", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -2, y: -1, z: -2 }, { x: 10, y: 1, z: 30 }, "stone");
+  // A serpentine channel: lanes along x joined at alternating ends, far more bends than a plan keeps
+  for (let lane = 0; lane <= 14; lane++) {
+    world.fill({ x: 0, y: 0, z: lane * 2 }, { x: 8, y: 1, z: lane * 2 }, "air");
+    world.fill({ x: 0, y: 0, z: lane * 2 }, { x: 8, y: 0, z: lane * 2 }, "water");
+    if (lane === 14) break;
+    const end = lane % 2 ? 0 : 8;
+    world.setBlock({ x: end, y: 1, z: lane * 2 + 1 }, "air");
+    world.setBlock({ x: end, y: 0, z: lane * 2 + 1 }, "water");
+  }
+  world.addEntity({ type: "object", name: "oak_boat", position: { x: 0.5, y: 0.4, z: 0.5 } });
+  const bot = addFakeBot(world, { position: { x: 0.5, y: 2, z: 0.5 } });
+
+  assert.equal((await callTool("mountNearest", { username: bot.username, kind: "boat" })).ok, true);
+  const ride = await callTool("rideVehicleTo", { username: bot.username, x: 8.5, z: 28.5 });
+  assert.equal(ride.stopReason, "arrived");
+  const moves = vehicleMoves(bot);
+  assert.ok(moves.every(m => world.getBlockName({ x: m.x, y: 0, z: m.z }) === "water"), "never cuts across the banks");
+});
+
+test("a minecart rides the rails to the end of the line", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -2, y: 0, z: -2 }, { x: 8, y: 0, z: 6 }, "stone");
+  world.fill({ x: 0, y: 1, z: 0 }, { x: 6, y: 1, z: 0 }, "rail");
+  world.fill({ x: 6, y: 1, z: 1 }, { x: 6, y: 1, z: 4 }, "powered_rail");
+  world.addEntity({ type: "object", name: "minecart", position: { x: 0.5, y: 1, z: 0.5 } });
+  const bot = addFakeBot(world, { position: { x: 0.5, y: 1, z: 1.5 } });
+
+  assert.equal((await callTool("mountNearest", { username: bot.username, entityName: "minecart" })).ok, true);
+  const ride = await callTool("rideVehicleTo", { username: bot.username });
+  assert.deepEqual([ride.ok, ride.stopReason, ride.kind], [true, "end_of_line", "minecart"]);
+  assert.deepEqual(ride.position, { x: 6.5, y: 1, z: 4.5 });
+  assert.equal(ride.travelled > 6, true);
+});
+
+test("a horse walks around a wall; unmountable and missing vehicles are reported", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -8, y: 0, z: -8 }, { x: 14, y: 0, z: 8 }, "stone");
+  world.fill({ x: 5, y: 1, z: -3 }, { x: 5, y: 2, z: 3 }, "cobblestone");
+  world.addEntity({ type: "animal", name: "horse", position: { x: 0.5, y: 1, z: 0.5 } });
+  world.addEntity({ type: "animal", name: "pig", position: { x: -6.5, y: 1, z: 0.5 }, rideable: false });
+  const bot = addFakeBot(world, { position: { x: -5.5, y: 1, z: 0.5 } });
+
+  assert.equal((await callTool("mountNearest", { username: bot.username, kind: "boat" })).error, "no_vehicle_found");
+  const pig = await callTool("mountNearest", { username: bot.username, entityName: "pig" });
+  assert.equal(pig.error, "mount_failed");
+
+  assert.equal((await callTool("mountNearest", { username: bot.username, entityName: "horse" })).ok, true);
+  const ride = await callTool("rideVehicleTo", { username: bot.username, x: 10.5, z: 0.5, range: 1 });
+  assert.equal(ride.stopReason, "arrived");
+  const moves = vehicleMoves(bot);
+  assert.ok(moves.some(m => Math.abs(m.z) >= 3.5), "detours around the wall");
+  assert.ok(moves.every(m => m.y === 1));
+});
+
+test("a horse does not drop through a wall into a tunnel behind it", async () => {
+  const world = new FakeWorld();
+  world.fill({ x: -8, y: 0, z: -8 }, { x: 14, y: 0, z: 8 }, "stone");
+  world.fill({ x: 5, y: 1, z: -3 }, { x: 5, y: 2, z: 3 }, "cobblestone");
+  // A hole under the wall opens into a tunnel that runs straight to the target
+  world.setBlock({ x: 5, y: 0, z: 0 }, "air");
+  world.fill({ x: 5, y: -3, z: 0 }, { x: 10, y: -3, z: 0 }, "stone");
+  world.addEntity({ type: "animal", name: "horse", position: { x: 0.5, y: 1, z: 0.5 } });
+  const bot = addFakeBot(world, { position: { x: 1.5, y: 1, z: 0.5 } });
+
+  assert.equal((await callTool("mountNearest", { username: bot.username, entityName: "horse" })).ok, true);
+  const ride = await callTool("rideVehicleTo", { username: bot.username, x: 10.5, z: 0.5, range: 1 });
+  assert.equal(ride.stopReason, "arrived");
+  assert.ok(vehicleMoves(bot).every(m => m.y === 1), "stays above ground");
+});
@@ -0,0 +1,79 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { Vec3 } from "vec3";
+import { FakeWorld, addFakeBot, callToolViaServer, resetBots } from "./support/harness.js";
+
+afterEach(() => resetBots());
+
+const tick = () => new Promise(r => setTimeout(r, 20));
+
+test("chat waits match by pattern and sender and resolve when the message arrives", async () => {
+  const bot = addFakeBot(new FakeWorld());
+  const wait = callToolViaServer("waitForEvent", { username: bot.username, event: "chat", pattern: "^come here", from: "steve", timeoutMs: 2000 });
+  await tick();
+  bot.emit("chat", "alex", "come here please");
+  bot.emit("chat", "Steve", "hello");
+  bot.emit("chat", "Steve", "Come here please");
+  const res = await wait;
+  assert.equal(res.ok, true);
+  assert.equal(res.buffered, false);
+  assert.deepEqual(res.data, { from: "Steve", message: "Come here please" });
+});
+
+test("events that arrive between calls are buffered and handed out once", async () => {
+  const bot = addFakeBot(new FakeWorld());
+  const first = await callToolViaServer("waitForEvent", { username: bot.username, event: "playerLeft", timeoutMs: 10 });
+  assert.equal(first.ok, false);
+  assert.equal(first.timedOut, true);
+
+  bot.emit("playerLeft", { username: "alex" });
+  bot.emit("playerLeft", { username: "steve" });
+  const a = await callToolViaServer("waitForEvent", { username: bot.username, event: "playerLeft", timeoutMs: 10 });
+  const b = await callToolViaServer("waitForEvent", { username: bot.username, event: "playerLeft", timeoutMs: 10 });
+  const none = await callToolViaServer("waitForEvent", { username: bot.username, event: "playerLeft", timeoutMs: 10 });
+  assert.deepEqual([a.data.username, b.data.username], ["alex", "steve"]);
+  assert.equal(a.buffered, true);
+  assert.equal(none.timedOut, true);
+
+  // Replaying from an earlier sequence number returns the event again
+  const again = await callToolViaServer("waitForEvent", { username: bot.username, event: "playerLeft", sinceSeq: a.seq - 1, timeoutMs: 10 });
+  assert.equal(again.data.username, "alex");
+});
+
+test("hurt, block change and dusk events", async () => {
+  const bot = addFakeBot(new FakeWorld());
+  await callToolViaServer("waitForEvent", { username: bot.username, event: "death", timeoutMs: 0 });
+
+  bot.emit("entityHurt", { id: 99 });
+  bot.health = 14;
+  bot.emit("entityHurt", bot.entity);
+  const stone = { type: 1, name: "stone", position: new Vec3(3, 0, 0) };
+  bot.emit("blockUpdate", { type: 1, name: "stone", position: new Vec3(2, 0, 0) }, { type: 0, name: "air", position: new Vec3(2, 0, 0) });
+  bot.emit("blockUpdate", stone, { type: 0, name: "air", position: new Vec3(3, 0, 0) });
+  const time = (timeOfDay: number) => { (bot as any).time = { timeOfDay }; bot.emit("time"); };
+  time(11900);
+  time(11980);
+  time(12020);
+
+  const hurt = await callToolViaServer("waitForEvent", { username: bot.username, event: "hurt", timeoutMs: 10 });
+  assert.equal(hurt.data.health, 14);
+  const block = await callToolViaServer("waitForEvent", { username: bot.username, event: "blockChange", x: 3, y: 0, z: 0, timeoutMs: 10 });
+  assert.deepEqual(block.data, { position: { x: 3, y: 0, z: 0 }, from: "stone", to: "air" });
+  const dusk = await callToolViaServer("waitForEvent", { username: bot.username, event: "dusk", timeoutMs: 10 });
+  assert.equal(dusk.data.timeOfDay, 12020);
+});
+
+test("entityNear returns entities already in range or ones that walk in", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world);
+  const zombie = world.addEntity({ type: "mob", name: "zombie", position: { x: 20, y: 1, z: 0 } });
+  const far = await callToolViaServer("waitForEvent", { username: bot.username, event: "entityNear", entityName: "zombie", radius: 5, timeoutMs: 10 });
+  assert.equal(far.timedOut, true);
+
+  const wait = callToolViaServer("waitForEvent", { username: bot.username, event: "entityNear", entityName: "zombie", radius: 5, timeoutMs: 2000 });
+  zombie.position = new Vec3(3, 1, 0);
+  const near = await wait;
+  assert.equal(near.ok, true);
+  assert.equal(near.data.name, "zombie");
+  assert.ok(near.data.distance <= 5);
+});
@@ -0,0 +1,60 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { FakeWorld, addFakeBot, callToolViaServer, resetBots } from "./support/harness.js";
+
+afterEach(resetBots);
+
+const waypointNames = (res: any) => res.waypoints.map((w: any) => w.name);
+
+test("waypoints are saved to disk, sorted by distance and scoped to their owner", async () => {
+  const world = new FakeWorld();
+  const alice = addFakeBot(world, { username: "Alice" });
+  const bob = addFakeBot(world, { username: "Bob", position: { x: 40.5, y: 1, z: 0.5 } });
+
+  await callToolViaServer("setWaypoint", { username: "Alice", name: "home" });
+  await callToolViaServer("setWaypoint", { username: "Alice", name: "mine", x: 30, y: 12, z: 4, note: "iron" });
+  await callToolViaServer("setWaypoint", { username: "Alice", name: "market", x: 50, y: 1, z: 0, shared: true });
+
+  const own = await callToolViaServer("listWaypoints", { username: alice.username });
+  assert.deepEqual(waypointNames(own), ["home", "mine", "market"]);
+  assert.equal(own.waypoints[1].note, "iron");
+  // Bob only sees the shared waypoint
+  const other = await callToolViaServer("listWaypoints", { username: bob.username });
+  assert.deepEqual(waypointNames(other), ["market"]);
+  assert.equal(other.waypoints[0].shared, true);
+
+  const saved = JSON.parse(await readFile(process.env.MCP_WAYPOINTS_FILE!, "utf8"));
+  const names = saved.servers.unknown.overworld.map((w: any) => `${w.owner ?? "*"}:${w.name}`);
+  assert.deepEqual(names.sort(), ["*:market", "Alice:home", "Alice:mine"]);
+
+  const del = await callToolViaServer("deleteWaypoint", { username: "Alice", name: "market" });
+  assert.equal(del.error, "waypoint_not_found");
+  assert.equal((await callToolViaServer("deleteWaypoint", { username: "Alice", name: "market", shared: true })).ok, true);
+  assert.deepEqual(waypointNames(await callToolViaServer("listWaypoints", { username: "Bob" })), []);
+});
+
+test("goToWaypoint navigates within the waypoint's dimension only", async () => {
+  const bot = addFakeBot(new FakeWorld(), { username: "Walker" });
+  await callToolViaServer("setWaypoint", { username: "Walker", name: "tower", x: 12, y: 1, z: -3 });
+  const res = await callToolViaServer("goToWaypoint", { username: "Walker", name: "tower" });
+  assert.equal(res.arrived, true);
+  assert.deepEqual([bot.entity.position.x, bot.entity.position.z], [12.5, -2.5]);
+
+  bot.game.dimension = "the_nether";
+  const away = await callToolViaServer("goToWaypoint", { username: "Walker", name: "tower" });
+  assert.equal(away.error, "wrong_dimension");
+  assert.equal(away.waypointDimension, "overworld");
+  assert.equal((await callToolViaServer("goToWaypoint", { username: "Walker", name: "nowhere" })).error, "waypoint_not_found");
+});
+
+test("craftItems remembers the crafting table it placed", async () => {
+  const world = new FakeWorld();
+  const bot = addFakeBot(world, { username: "Crafter", inventory: [{ name: "crafting_table", count: 1 }, { name: "oak_planks", count: 3 }, { name: "stick", count: 2 }] });
+  const res = await callToolViaServer("craftItems", { username: bot.username, itemName: "wooden_pickaxe" });
+  assert.equal(res.ok, true);
+  const list = await callToolViaServer("listWaypoints", { username: bot.username });
+  const table = list.waypoints.find((w: any) => w.auto === "crafting_table");
+  assert.ok(table, "crafting table waypoint recorded");
+  assert.equal(world.getBlockName(table), "crafting_table");
+});
@@ -0,0 +1,85 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { Vec3 } from "vec3";
+import { bots } from "../src/index.js";
+import { FakeWorld, callTool, callToolViaServer, resetBots, useFakeServer } from "./support/harness.js";
+
+let restoreFactory = () => {};
+afterEach(async () => {
+  await callTool("leaveGame", { disconnectAll: true });
+  resetBots();
+  restoreFactory();
+});
+
+async function until(check: () => Promise<boolean>, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+// Stand-ins for the packets a real server would send
+const emit = (username: string, event: string, ...args: unknown[]) => (bots.get(username) as any).emit(event, ...args);
+const loadChunk = (username: string, cx: number, cz: number) => emit(username, "chunkColumnLoad", new Vec3(cx * 16, 0, cz * 16));
+const remembered = (res: any) => res.results.map((r: any) => `${r.name}@${r.x},${r.y},${r.z}`);
+
+test("blocks seen as chunks load are remembered and queried nearest first", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 3, y: 5, z: 5 }, "diamond_ore");
+  world.setBlock({ x: 40, y: 12, z: 3 }, "diamond_ore");
+  world.setBlock({ x: 20, y: 1, z: 20 }, "chest");
+  world.setBlock({ x: 2, y: 1, z: 2 }, "stone");
+  restoreFactory = useFakeServer(world);
+  await callTool("joinGame", { username: "Scout" });
+
+  loadChunk("Scout", 0, 0);
+  loadChunk("Scout", 1, 1);
+  loadChunk("Scout", 2, 0);
+  await until(async () => (await callTool("queryWorldMemory", { username: "Scout" })).total === 3);
+
+  const diamonds = await callToolViaServer("queryWorldMemory", { username: "Scout", blockName: "diamond" });
+  assert.deepEqual(remembered(diamonds), ["diamond_ore@3,5,5", "diamond_ore@40,12,3"]);
+  assert.equal(diamonds.results[0].category, "ore");
+  assert.deepEqual(diamonds.counts, { diamond_ore: 2 });
+  const storage = await callTool("queryWorldMemory", { username: "Scout", category: "storage" });
+  assert.deepEqual(remembered(storage), ["chest@20,1,20"]);
+  assert.equal((await callTool("queryWorldMemory", { username: "Scout", maxDistance: 20 })).total, 1);
+
+  // A block update that replaces a remembered block drops it
+  const before = world.blockAt({ x: 20, y: 1, z: 20 });
+  world.setBlock({ x: 20, y: 1, z: 20 }, "air");
+  emit("Scout", "blockUpdate", before, world.blockAt({ x: 20, y: 1, z: 20 }));
+  await until(async () => (await callTool("queryWorldMemory", { username: "Scout", category: "storage" })).total === 0);
+
+  // Reloading a chunk replaces what was remembered for it
+  world.setBlock({ x: 40, y: 12, z: 3 }, "stone");
+  loadChunk("Scout", 2, 0);
+  await until(async () => (await callTool("queryWorldMemory", { username: "Scout" })).total === 1);
+});
+
+test("memory is written to disk when the bot leaves and can be turned off per bot", async () => {
+  const world = new FakeWorld();
+  world.setBlock({ x: 8, y: 4, z: 8 }, "iron_ore");
+  world.setBlock({ x: 24, y: 4, z: 8 }, "crafting_table");
+  restoreFactory = useFakeServer(world);
+  await callTool("joinGame", { username: "Keeper", port: 25571 });
+  await callToolViaServer("setConfig", { username: "Keeper", settings: { worldMemory: false } });
+  loadChunk("Keeper", 1, 0);
+  await callToolViaServer("setConfig", { username: "Keeper", settings: { worldMemory: null } });
+  loadChunk("Keeper", 0, 0);
+  await until(async () => (await callTool("queryWorldMemory", { username: "Keeper" })).total === 1);
+
+  await callTool("leaveGame", { username: "Keeper" });
+  await until(async () => {
+    try {
+      const saved = JSON.parse(await readFile(process.env.MCP_WORLD_MEMORY_FILE!, "utf8"));
+      return Boolean(saved.servers["localhost:25571"]?.overworld?.["8,4,8"]);
+    } catch {
+      return false;
+    }
+  });
+  const saved = JSON.parse(await readFile(process.env.MCP_WORLD_MEMORY_FILE!, "utf8"));
+  assert.deepEqual(Object.values(saved.servers["localhost:25571"].overworld).map((e: any) => e.name), ["iron_ore"]);
+});